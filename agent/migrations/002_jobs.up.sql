@@ -0,0 +1,60 @@
+-- Jobs searched by `search_jobs` (see src/jobs.ts). Listings from external
+-- feeds are keyed by (source, external_id) so re-syncing updates them.
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source VARCHAR(64) NOT NULL DEFAULT 'manual',
+  external_id VARCHAR(255),
+  title TEXT NOT NULL,
+  company TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  skills TEXT[] NOT NULL DEFAULT '{}',
+  location TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  remote BOOLEAN NOT NULL DEFAULT FALSE,
+  employment_type VARCHAR(16) NOT NULL DEFAULT 'full_time'
+    CHECK (employment_type IN ('full_time', 'part_time', 'contract', 'fractional')),
+  salary_min INTEGER,
+  salary_max INTEGER,
+  day_rate_min INTEGER,
+  day_rate_max INTEGER,
+  currency CHAR(3) NOT NULL DEFAULT 'USD',
+  days_per_week REAL,
+  engagement_months INTEGER,
+  start_date DATE,
+  ir35_status VARCHAR(12) CHECK (ir35_status IN ('inside', 'outside', 'undetermined')),
+  url TEXT,
+  search_vector TSVECTOR,
+  posted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (source, external_id)
+);
+CREATE INDEX IF NOT EXISTS jobs_search_vector_idx ON jobs USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS jobs_posted_at_idx ON jobs (posted_at DESC);
+
+-- Keeps `search_vector` in step with the searchable columns. A trigger
+-- rather than a generated column, since array_to_string isn't immutable.
+CREATE OR REPLACE FUNCTION update_jobs_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector =
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW.skills, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_jobs_search_vector ON jobs;
+CREATE TRIGGER update_jobs_search_vector
+BEFORE INSERT OR UPDATE ON jobs
+FOR EACH ROW
+EXECUTE FUNCTION update_jobs_search_vector();
+
+DROP TRIGGER IF EXISTS update_jobs_updated_at ON jobs;
+CREATE TRIGGER update_jobs_updated_at
+BEFORE UPDATE ON jobs
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS checkpoint_writes;
+DROP TABLE IF EXISTS checkpoints;
+DROP TABLE IF EXISTS checkpoint_threads;
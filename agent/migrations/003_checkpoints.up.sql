@@ -0,0 +1,39 @@
+-- Graph checkpoints (see src/checkpointer.ts). Deleting a thread deletes its
+-- checkpoints and writes.
+CREATE TABLE IF NOT EXISTS checkpoint_threads (
+  thread_id TEXT PRIMARY KEY,
+  user_id VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS checkpoint_threads_user_idx
+  ON checkpoint_threads (user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS checkpoint_threads_updated_idx
+  ON checkpoint_threads (updated_at);
+
+CREATE TABLE IF NOT EXISTS checkpoints (
+  thread_id TEXT NOT NULL REFERENCES checkpoint_threads (thread_id) ON DELETE CASCADE,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  parent_checkpoint_id TEXT,
+  type TEXT NOT NULL,
+  checkpoint BYTEA NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+);
+
+CREATE TABLE IF NOT EXISTS checkpoint_writes (
+  thread_id TEXT NOT NULL REFERENCES checkpoint_threads (thread_id) ON DELETE CASCADE,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  idx INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  type TEXT NOT NULL,
+  value BYTEA NOT NULL,
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+
+-- Replaced by the migrations table
+DROP TABLE IF EXISTS checkpoint_migrations;
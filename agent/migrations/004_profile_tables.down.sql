@@ -0,0 +1,39 @@
+-- Profiles saved since 004 only exist in the typed tables; write them back to
+-- the blob first so they survive. Every user is written, including those with
+-- only skills or a name and no preferences row. Empty ranges are left out
+-- rather than kept as {}.
+UPDATE user_profiles up
+SET profile_data = blob.data
+FROM (
+  SELECT u.user_id, jsonb_strip_nulls(jsonb_build_object(
+    'name', u.name,
+    'email', u.email,
+    'skills', (SELECT jsonb_agg(s.name ORDER BY s.id) FROM profile_skills s WHERE s.user_id = u.user_id),
+    'desiredRole', p.desired_role,
+    'experienceYears', p.experience_years,
+    'salaryRange', NULLIF(jsonb_strip_nulls(
+      jsonb_build_object('min', p.salary_min, 'max', p.salary_max)), '{}'::jsonb),
+    'locationPreference', p.location_preference,
+    'remotePreference', p.remote_preference,
+    'dayRateRange', NULLIF(jsonb_strip_nulls(
+      jsonb_build_object('min', p.day_rate_min, 'max', p.day_rate_max)), '{}'::jsonb),
+    'daysPerWeek', p.days_per_week,
+    'engagementMonths', NULLIF(jsonb_strip_nulls(
+      jsonb_build_object('min', p.engagement_months_min, 'max', p.engagement_months_max)), '{}'::jsonb),
+    'maxConcurrentClients', p.max_concurrent_clients,
+    'availableFrom', p.available_from,
+    'contractorStatus', p.contractor_status,
+    'outsideIR35Only', p.outside_ir35_only
+  )) AS data
+  FROM user_profiles u
+  LEFT JOIN profile_preferences p ON p.user_id = u.user_id
+) blob
+WHERE blob.user_id = up.user_id;
+
+DROP TABLE IF EXISTS profile_changes;
+DROP FUNCTION IF EXISTS reject_profile_change_edits();
+DROP TABLE IF EXISTS profile_preferences;
+DROP TABLE IF EXISTS profile_experience;
+DROP TABLE IF EXISTS profile_skills;
+ALTER TABLE user_profiles DROP COLUMN IF EXISTS email;
+ALTER TABLE user_profiles DROP COLUMN IF EXISTS name;
@@ -0,0 +1,154 @@
+-- Typed profile storage, replacing the `profile_data` blob (see src/profiles.ts).
+-- `user_profiles` stays as the root row per user; `profile_data` is no longer
+-- written and is kept only so this migration can be undone.
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS name TEXT;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS email TEXT;
+
+CREATE TABLE profile_skills (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES user_profiles (user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  proficiency VARCHAR(12) CHECK (proficiency IN ('beginner', 'intermediate', 'advanced', 'expert')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+CREATE UNIQUE INDEX profile_skills_user_name_idx ON profile_skills (user_id, lower(name));
+
+CREATE TABLE profile_experience (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES user_profiles (user_id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  company TEXT,
+  start_date DATE,
+  end_date DATE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX profile_experience_user_idx ON profile_experience (user_id, start_date DESC);
+
+CREATE TABLE profile_preferences (
+  user_id VARCHAR(255) PRIMARY KEY REFERENCES user_profiles (user_id) ON DELETE CASCADE,
+  desired_role TEXT,
+  experience_years REAL,
+  salary_min INTEGER,
+  salary_max INTEGER,
+  location_preference TEXT,
+  remote_preference VARCHAR(8) CHECK (remote_preference IN ('remote', 'hybrid', 'onsite')),
+  day_rate_min INTEGER,
+  day_rate_max INTEGER,
+  days_per_week REAL,
+  engagement_months_min INTEGER,
+  engagement_months_max INTEGER,
+  max_concurrent_clients INTEGER,
+  available_from DATE,
+  contractor_status VARCHAR(16)
+    CHECK (contractor_status IN ('limited_company', 'umbrella', 'sole_trader', 'employee')),
+  outside_ir35_only BOOLEAN,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_profile_preferences_updated_at
+BEFORE UPDATE ON profile_preferences
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per changed field, with where the change came from
+CREATE TABLE profile_changes (
+  id BIGSERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL,
+  field TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  source VARCHAR(8) NOT NULL CHECK (source IN ('voice', 'chat', 'form', 'system')),
+  thread_id TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX profile_changes_user_idx ON profile_changes (user_id, changed_at DESC, id DESC);
+
+CREATE FUNCTION reject_profile_change_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'profile_changes is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER profile_changes_append_only
+BEFORE UPDATE OR DELETE ON profile_changes
+FOR EACH ROW
+EXECUTE FUNCTION reject_profile_change_edits();
+
+-- Copy existing profiles out of the blob
+UPDATE user_profiles
+SET name = profile_data->>'name', email = profile_data->>'email'
+WHERE profile_data IS NOT NULL;
+
+INSERT INTO profile_skills (user_id, name)
+SELECT DISTINCT ON (user_id, lower(skill)) user_id, skill
+FROM user_profiles, jsonb_array_elements_text(profile_data->'skills') AS skill
+WHERE jsonb_typeof(profile_data->'skills') = 'array';
+
+-- The blob was never validated, so values that don't convert (fractions are
+-- rounded) are dropped rather than failing the migration
+CREATE FUNCTION pg_temp.blob_integer(value TEXT) RETURNS INTEGER AS $$
+BEGIN
+  RETURN round(value::numeric)::integer;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE FUNCTION pg_temp.blob_real(value TEXT) RETURNS REAL AS $$
+BEGIN
+  RETURN value::real;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE FUNCTION pg_temp.blob_date(value TEXT) RETURNS DATE AS $$
+BEGIN
+  RETURN value::date;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE FUNCTION pg_temp.blob_boolean(value TEXT) RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN value::boolean;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+INSERT INTO profile_preferences (
+  user_id, desired_role, experience_years, salary_min, salary_max, location_preference,
+  remote_preference, day_rate_min, day_rate_max, days_per_week, engagement_months_min,
+  engagement_months_max, max_concurrent_clients, available_from, contractor_status,
+  outside_ir35_only
+)
+SELECT
+  user_id,
+  profile_data->>'desiredRole',
+  pg_temp.blob_real(profile_data->>'experienceYears'),
+  pg_temp.blob_integer(profile_data->'salaryRange'->>'min'),
+  pg_temp.blob_integer(profile_data->'salaryRange'->>'max'),
+  profile_data->>'locationPreference',
+  CASE WHEN profile_data->>'remotePreference' IN ('remote', 'hybrid', 'onsite')
+    THEN profile_data->>'remotePreference' END,
+  pg_temp.blob_integer(profile_data->'dayRateRange'->>'min'),
+  pg_temp.blob_integer(profile_data->'dayRateRange'->>'max'),
+  pg_temp.blob_real(profile_data->>'daysPerWeek'),
+  pg_temp.blob_integer(profile_data->'engagementMonths'->>'min'),
+  pg_temp.blob_integer(profile_data->'engagementMonths'->>'max'),
+  pg_temp.blob_integer(profile_data->>'maxConcurrentClients'),
+  pg_temp.blob_date(profile_data->>'availableFrom'),
+  CASE WHEN profile_data->>'contractorStatus' IN ('limited_company', 'umbrella', 'sole_trader', 'employee')
+    THEN profile_data->>'contractorStatus' END,
+  pg_temp.blob_boolean(profile_data->>'outsideIR35Only')
+FROM user_profiles
+WHERE profile_data IS NOT NULL;
+
+DROP FUNCTION pg_temp.blob_integer(TEXT);
+DROP FUNCTION pg_temp.blob_real(TEXT);
+DROP FUNCTION pg_temp.blob_date(TEXT);
+DROP FUNCTION pg_temp.blob_boolean(TEXT);
@@ -0,0 +1,30 @@
+-- Job applications tracked by the coach (see src/applications.ts). Title and
+-- company are copied from the job so the application outlives the listing.
+CREATE TABLE applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255) NOT NULL,
+  job_id UUID REFERENCES jobs (id) ON DELETE SET NULL,
+  job_title TEXT NOT NULL,
+  company TEXT NOT NULL,
+  status VARCHAR(12) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'submitted', 'interviewing', 'offer', 'rejected')),
+  cover_letter_points TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  -- Conversation the application was made in
+  thread_id VARCHAR(255),
+  follow_up_on DATE,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  -- One application per job; applications with no job (NULL) aren't limited
+  UNIQUE (user_id, job_id)
+);
+CREATE INDEX applications_user_status_idx ON applications (user_id, status, updated_at DESC);
+CREATE INDEX applications_follow_up_idx ON applications (user_id, follow_up_on)
+  WHERE follow_up_on IS NOT NULL;
+
+CREATE TRIGGER update_applications_updated_at
+BEFORE UPDATE ON applications
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,344 @@
+/**
+ * Application tracker
+ *
+ * Applications are stored in the `applications` table (migration 005) and
+ * move through a status pipeline: draft → submitted → interviewing → offer or
+ * rejected. Moving an application to submitted or interviewing schedules a
+ * follow-up reminder, a date the user can move or clear; `getDueFollowUps()`
+ * lists the reminders that have come round, which the coach raises at the
+ * start of each turn.
+ */
+
+import type { PoolClient } from "@neondatabase/serverless";
+import { query, transaction } from "./db.js";
+
+export const APPLICATION_STATUSES = [
+  "draft",
+  "submitted",
+  "interviewing",
+  "offer",
+  "rejected",
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export interface Application {
+  id: string;
+  userId: string;
+  /** null once the job listing has been deleted */
+  jobId: string | null;
+  jobTitle: string;
+  company: string;
+  status: ApplicationStatus;
+  coverLetterPoints: string[];
+  notes?: string;
+  /** Conversation the application was made in */
+  threadId?: string;
+  /** ISO date */
+  followUpOn?: string;
+  /** ISO timestamps */
+  submittedAt?: string;
+  statusChangedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewApplication {
+  jobId?: string;
+  jobTitle: string;
+  company: string;
+  /** @default "draft" */
+  status?: "draft" | "submitted";
+  coverLetterPoints?: string[];
+  notes?: string;
+  threadId?: string;
+}
+
+/**
+ * Fields to change. Omitted fields are left as they are; `null` clears one.
+ * A status change reschedules the follow-up unless `followUpOn` is given.
+ */
+export interface ApplicationUpdate {
+  status?: ApplicationStatus;
+  /** ISO date */
+  followUpOn?: string | null;
+  notes?: string | null;
+}
+
+export type UpdateApplicationResult =
+  | { updated: true; application: Application }
+  | { updated: false; reason: "not_found" | "invalid_status"; message: string };
+
+interface ApplicationRow {
+  id: string;
+  user_id: string;
+  job_id: string | null;
+  job_title: string;
+  company: string;
+  status: ApplicationStatus;
+  cover_letter_points: string[] | null;
+  notes: string | null;
+  thread_id: string | null;
+  follow_up_on: string | null;
+  submitted_at: Date | null;
+  status_changed_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/** Where each status can move next */
+const NEXT_STATUSES: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  draft: ["submitted"],
+  submitted: ["interviewing", "offer", "rejected"],
+  interviewing: ["offer", "rejected"],
+  offer: [],
+  rejected: [],
+};
+
+/** Days after moving to a status to follow up. Other statuses have no reminder. */
+const FOLLOW_UP_AFTER_DAYS: Partial<Record<ApplicationStatus, number>> = {
+  submitted: 7,
+  interviewing: 3,
+};
+
+// Dates read as text, so they come back as ISO dates rather than local-midnight Dates
+const COLUMNS = `id, user_id, job_id, job_title, company, status, cover_letter_points, notes,
+  thread_id, follow_up_on::text AS follow_up_on, submitted_at, status_changed_at, created_at,
+  updated_at`;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Records an application. There's one per job: if the user already has one
+ * for `jobId`, that is returned instead (submitted, if it was a draft and
+ * this is a submission) with `created: false`.
+ */
+export async function createApplication(
+  userId: string,
+  application: NewApplication
+): Promise<{ application: Application; created: boolean }> {
+  const status = application.status ?? "draft";
+
+  return transaction(async (client) => {
+    const inserted = await client.query(
+      `INSERT INTO applications
+         (user_id, job_id, job_title, company, status, cover_letter_points, notes, thread_id,
+          follow_up_on, submitted_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_DATE + $9::int, $10)
+       ON CONFLICT (user_id, job_id) DO NOTHING
+       RETURNING ${COLUMNS}`,
+      [
+        userId,
+        application.jobId ?? null,
+        application.jobTitle,
+        application.company,
+        status,
+        application.coverLetterPoints ?? [],
+        application.notes ?? null,
+        application.threadId ?? null,
+        FOLLOW_UP_AFTER_DAYS[status] ?? null,
+        status === "submitted" ? new Date() : null,
+      ]
+    );
+    if (inserted.rows[0]) {
+      return { application: rowToApplication(inserted.rows[0]), created: true };
+    }
+
+    const existing = await client.query(
+      `SELECT ${COLUMNS} FROM applications WHERE user_id = $1 AND job_id = $2 FOR UPDATE`,
+      [userId, application.jobId]
+    );
+    const current = rowToApplication(existing.rows[0]);
+    if (current.status !== "draft" || status !== "submitted") {
+      return { application: current, created: false };
+    }
+
+    const result = await applyUpdate(client, current, {
+      status,
+      coverLetterPoints: application.coverLetterPoints,
+    });
+    return { application: result.updated ? result.application : current, created: false };
+  });
+}
+
+/**
+ * A user's application, or null if they have none with this id.
+ */
+export async function getApplication(userId: string, id: string): Promise<Application | null> {
+  if (!UUID_PATTERN.test(id)) return null;
+  const result = await query(
+    `SELECT ${COLUMNS} FROM applications WHERE id = $1 AND user_id = $2`,
+    [id, userId]
+  );
+  return result.rows[0] ? rowToApplication(result.rows[0]) : null;
+}
+
+/**
+ * The user's application for a job, or null if they haven't made one.
+ */
+export async function getApplicationForJob(
+  userId: string,
+  jobId: string
+): Promise<Application | null> {
+  const result = await query(
+    `SELECT ${COLUMNS} FROM applications WHERE user_id = $1 AND job_id = $2`,
+    [userId, jobId]
+  );
+  return result.rows[0] ? rowToApplication(result.rows[0]) : null;
+}
+
+/**
+ * A user's applications, most recently updated first.
+ */
+export async function listApplications(
+  userId: string,
+  options: { status?: ApplicationStatus; limit?: number } = {}
+): Promise<Application[]> {
+  const values: unknown[] = [userId];
+  const where = ["user_id = $1"];
+  if (options.status) {
+    values.push(options.status);
+    where.push(`status = $${values.length}`);
+  }
+  values.push(options.limit ?? 50);
+
+  const result = await query(
+    `SELECT ${COLUMNS} FROM applications
+     WHERE ${where.join(" AND ")}
+     ORDER BY updated_at DESC
+     LIMIT $${values.length}`,
+    values
+  );
+  return result.rows.map(rowToApplication);
+}
+
+/**
+ * How many applications a user has at each status.
+ */
+export async function countApplications(
+  userId: string
+): Promise<Record<ApplicationStatus, number>> {
+  const result = await query(
+    `SELECT status, COUNT(*) AS count FROM applications WHERE user_id = $1 GROUP BY status`,
+    [userId]
+  );
+  const counts = Object.fromEntries(APPLICATION_STATUSES.map((status) => [status, 0])) as Record<
+    ApplicationStatus,
+    number
+  >;
+  for (const row of result.rows) {
+    counts[row.status as ApplicationStatus] = Number(row.count);
+  }
+  return counts;
+}
+
+/**
+ * Applications whose follow-up date has arrived, oldest reminder first.
+ */
+export async function getDueFollowUps(userId: string): Promise<Application[]> {
+  const result = await query(
+    `SELECT ${COLUMNS} FROM applications
+     WHERE user_id = $1 AND follow_up_on <= CURRENT_DATE
+     ORDER BY follow_up_on, id`,
+    [userId]
+  );
+  return result.rows.map(rowToApplication);
+}
+
+/**
+ * Changes an application's status, follow-up date or notes. Statuses only
+ * move forward through the pipeline; anything else is refused with
+ * `invalid_status`.
+ */
+export async function updateApplication(
+  userId: string,
+  id: string,
+  update: ApplicationUpdate
+): Promise<UpdateApplicationResult> {
+  if (!UUID_PATTERN.test(id)) {
+    return { updated: false, reason: "not_found", message: `No application ${id}` };
+  }
+
+  return transaction(async (client) => {
+    const result = await client.query(
+      `SELECT ${COLUMNS} FROM applications WHERE id = $1 AND user_id = $2 FOR UPDATE`,
+      [id, userId]
+    );
+    if (!result.rows[0]) {
+      return { updated: false, reason: "not_found", message: `No application ${id}` };
+    }
+    return applyUpdate(client, rowToApplication(result.rows[0]), update);
+  });
+}
+
+/**
+ * Where an application with this status can move next.
+ */
+export function nextStatuses(status: ApplicationStatus): readonly ApplicationStatus[] {
+  return NEXT_STATUSES[status];
+}
+
+async function applyUpdate(
+  client: PoolClient,
+  current: Application,
+  update: ApplicationUpdate & { coverLetterPoints?: string[] }
+): Promise<UpdateApplicationResult> {
+  const values: unknown[] = [current.id];
+  const sets: string[] = [];
+  const set = (column: string, value: unknown, cast = "") => {
+    values.push(value);
+    sets.push(`${column} = $${values.length}${cast}`);
+  };
+
+  if (update.status !== undefined && update.status !== current.status) {
+    const next = NEXT_STATUSES[current.status];
+    if (!next.includes(update.status)) {
+      return {
+        updated: false,
+        reason: "invalid_status",
+        message:
+          next.length > 0
+            ? `A ${current.status} application can move to ${next.join(" or ")}, not ${update.status}`
+            : `A ${current.status} application can't change status`,
+      };
+    }
+
+    set("status", update.status);
+    sets.push("status_changed_at = NOW()");
+    if (update.status === "submitted") sets.push("submitted_at = NOW()");
+    if (update.followUpOn === undefined) {
+      values.push(FOLLOW_UP_AFTER_DAYS[update.status] ?? null);
+      sets.push(`follow_up_on = CURRENT_DATE + $${values.length}::int`);
+    }
+  }
+  if (update.followUpOn !== undefined) set("follow_up_on", update.followUpOn, "::date");
+  if (update.notes !== undefined) set("notes", update.notes);
+  if (update.coverLetterPoints !== undefined) set("cover_letter_points", update.coverLetterPoints);
+
+  if (sets.length === 0) return { updated: true, application: current };
+
+  const result = await client.query(
+    `UPDATE applications SET ${sets.join(", ")} WHERE id = $1 RETURNING ${COLUMNS}`,
+    values
+  );
+  return { updated: true, application: rowToApplication(result.rows[0]) };
+}
+
+function rowToApplication(row: ApplicationRow): Application {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    jobId: row.job_id,
+    jobTitle: row.job_title,
+    company: row.company,
+    status: row.status,
+    coverLetterPoints: row.cover_letter_points ?? [],
+    notes: row.notes ?? undefined,
+    threadId: row.thread_id ?? undefined,
+    followUpOn: row.follow_up_on ?? undefined,
+    submittedAt: row.submitted_at ? new Date(row.submitted_at).toISOString() : undefined,
+    statusChangedAt: new Date(row.status_changed_at).toISOString(),
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
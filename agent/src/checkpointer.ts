@@ -0,0 +1,299 @@
+/**
+ * Postgres checkpointer
+ *
+ * Stores graph checkpoints and pending writes in Postgres through the Neon
+ * pool in db.ts, so conversations and pending interrupts survive restarts.
+ * Each thread is also recorded with the user it belongs to (`user_id` in the
+ * run's `configurable`), which is what `listThreads()` and TTL pruning work
+ * from.
+ *
+ * The tables are created by migration 003 (see migrate.ts).
+ */
+
+import {
+  BaseCheckpointSaver,
+  MemorySaver,
+  WRITES_IDX_MAP,
+  type ChannelVersions,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+  type SerializerProtocol,
+} from "@langchain/langgraph-checkpoint";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { query } from "./db.js";
+
+/**
+ * A conversation thread and who it belongs to.
+ */
+export interface ThreadInfo {
+  threadId: string;
+  userId: string | null;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CheckpointRow {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  parent_checkpoint_id: string | null;
+  type: string;
+  checkpoint: Uint8Array;
+  metadata: CheckpointMetadata;
+}
+
+/**
+ * LangGraph checkpointer backed by Postgres.
+ */
+export class PostgresCheckpointSaver extends BaseCheckpointSaver {
+  constructor(serde?: SerializerProtocol) {
+    super(serde);
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined) return undefined;
+
+    const result = checkpointId
+      ? await query(
+          `SELECT * FROM checkpoints
+           WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3`,
+          [threadId, checkpointNs, checkpointId]
+        )
+      : await query(
+          `SELECT * FROM checkpoints
+           WHERE thread_id = $1 AND checkpoint_ns = $2
+           ORDER BY checkpoint_id DESC
+           LIMIT 1`,
+          [threadId, checkpointNs]
+        );
+
+    const row = result.rows[0];
+    return row ? this.#toTuple(row) : undefined;
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options: CheckpointListOptions = {}
+  ): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options;
+
+    const values: unknown[] = [];
+    const where: string[] = [];
+    const add = (condition: string, value: unknown) => {
+      values.push(value);
+      where.push(condition.replace("?", `$${values.length}`));
+    };
+
+    if (config.configurable?.thread_id !== undefined) {
+      add("thread_id = ?", config.configurable.thread_id);
+    }
+    if (config.configurable?.checkpoint_ns !== undefined) {
+      add("checkpoint_ns = ?", config.configurable.checkpoint_ns);
+    }
+    if (config.configurable?.checkpoint_id !== undefined) {
+      add("checkpoint_id = ?", config.configurable.checkpoint_id);
+    }
+    if (before?.configurable?.checkpoint_id !== undefined) {
+      add("checkpoint_id < ?", before.configurable.checkpoint_id);
+    }
+    if (filter && Object.keys(filter).length > 0) {
+      add("metadata @> ?::jsonb", JSON.stringify(filter));
+    }
+
+    let sql = `SELECT * FROM checkpoints
+      ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY checkpoint_id DESC`;
+    if (limit !== undefined) {
+      values.push(limit);
+      sql += ` LIMIT $${values.length}`;
+    }
+
+    const result = await query(sql, values);
+    for (const row of result.rows) {
+      yield await this.#toTuple(row);
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+    _newVersions: ChannelVersions
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (threadId === undefined) {
+      throw new Error(
+        `Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.`
+      );
+    }
+
+    await this.saveThread(threadId, config.configurable?.user_id);
+
+    const [type, serialized] = await this.serde.dumpsTyped(checkpoint);
+    await query(
+      `INSERT INTO checkpoints
+         (thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, type, checkpoint, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id)
+       DO UPDATE SET checkpoint = EXCLUDED.checkpoint, metadata = EXCLUDED.metadata`,
+      [
+        threadId,
+        checkpointNs,
+        checkpoint.id,
+        config.configurable?.checkpoint_id ?? null,
+        type,
+        Buffer.from(serialized),
+        JSON.stringify(metadata),
+      ]
+    );
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error(
+        `Failed to put writes. The passed RunnableConfig is missing a required "thread_id" or "checkpoint_id" field in its "configurable" property.`
+      );
+    }
+
+    for (const [index, [channel, value]] of writes.entries()) {
+      const [type, serialized] = await this.serde.dumpsTyped(value);
+      // Special channels (errors, interrupts) replace earlier writes; others are written once
+      const idx = WRITES_IDX_MAP[channel] ?? index;
+      await query(
+        `INSERT INTO checkpoint_writes
+           (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, type, value)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+         ${idx < 0 ? "DO UPDATE SET channel = EXCLUDED.channel, type = EXCLUDED.type, value = EXCLUDED.value" : "DO NOTHING"}`,
+        [threadId, checkpointNs, checkpointId, taskId, idx, channel, type, Buffer.from(serialized)]
+      );
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    // Checkpoints and writes go with it
+    await query(`DELETE FROM checkpoint_threads WHERE thread_id = $1`, [threadId]);
+  }
+
+  /**
+   * Records a thread, and the user it belongs to when known. Threads are
+   * saved with their first checkpoint; call this to list one before that.
+   * A thread keeps its first owner: saving it for another user throws.
+   */
+  async saveThread(threadId: string, userId?: string | null): Promise<void> {
+    const result = await query(
+      `INSERT INTO checkpoint_threads (thread_id, user_id)
+       VALUES ($1, $2)
+       ON CONFLICT (thread_id) DO UPDATE SET
+         user_id = COALESCE(checkpoint_threads.user_id, EXCLUDED.user_id),
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING user_id`,
+      [threadId, userId ?? null]
+    );
+    const owner = result.rows[0]?.user_id;
+    if (userId && owner !== userId) {
+      throw new Error(`Thread ${threadId} belongs to another user`);
+    }
+  }
+
+  /**
+   * A user's threads, most recently active first.
+   */
+  async listThreads(userId: string, options: { limit?: number } = {}): Promise<ThreadInfo[]> {
+    const result = await query(
+      `SELECT * FROM checkpoint_threads
+       WHERE user_id = $1
+       ORDER BY updated_at DESC
+       LIMIT $2`,
+      [userId, options.limit ?? 50]
+    );
+    return result.rows.map((row) => ({
+      threadId: row.thread_id,
+      userId: row.user_id,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    }));
+  }
+
+  /**
+   * Deletes threads with no activity for `ttlMs`, along with their
+   * checkpoints. Returns the number deleted.
+   */
+  async prune(ttlMs: number): Promise<number> {
+    const result = await query(
+      `DELETE FROM checkpoint_threads
+       WHERE updated_at < NOW() - make_interval(secs => $1)`,
+      [ttlMs / 1000]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async #toTuple(row: CheckpointRow): Promise<CheckpointTuple> {
+    const writes = await query(
+      `SELECT task_id, channel, type, value FROM checkpoint_writes
+       WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3
+       ORDER BY task_id, idx`,
+      [row.thread_id, row.checkpoint_ns, row.checkpoint_id]
+    );
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writes.rows.map(
+        async (write): Promise<CheckpointPendingWrite> => [
+          write.task_id,
+          write.channel,
+          await this.serde.loadsTyped(write.type, write.value),
+        ]
+      )
+    );
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.checkpoint_id,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(row.type, row.checkpoint),
+      metadata: row.metadata,
+      pendingWrites,
+    };
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.parent_checkpoint_id,
+        },
+      };
+    }
+    return tuple;
+  }
+}
+
+/**
+ * The checkpointer for the graph: Postgres, or in-memory when
+ * `CHECKPOINTER=memory` (tests, local experiments).
+ */
+export function createCheckpointer(): BaseCheckpointSaver {
+  return process.env.CHECKPOINTER === "memory" ? new MemorySaver() : new PostgresCheckpointSaver();
+}
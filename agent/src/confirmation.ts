@@ -0,0 +1,289 @@
+/**
+ * Human-in-the-loop confirmations for graph tools
+ *
+ * `confirmAction()` pauses the graph with `interrupt()`, sending a
+ * `ConfirmationInterrupt`, and works out what the user meant when the graph
+ * is resumed. The answer can come from a button in
+ * the CopilotKit UI (a structured `ConfirmationResponse`) or from a free-form
+ * utterance (voice agent, chat), which is classified by a structured model call
+ * as confirm / deny / amend, with any corrections extracted. Unclear answers
+ * are re-prompted, and hard confirmations only go ahead on an explicit phrase.
+ */
+
+import { z } from "zod";
+import { ChatOpenAI } from "@langchain/openai";
+import { interrupt } from "@langchain/langgraph";
+import type { ConfirmationInterrupt, InterruptOption } from "./interrupts.js";
+
+export type ConfirmationKind = "soft" | "hard";
+
+export type ConfirmationDecision = "confirm" | "deny" | "amend";
+
+/**
+ * Structured answer to a confirmation, e.g. from UI buttons.
+ */
+export interface ConfirmationResponse {
+  decision: ConfirmationDecision;
+  /** New values for amendable fields (with `amend`) */
+  corrections?: Record<string, unknown>;
+}
+
+export interface ConfirmActionOptions<V extends Record<string, unknown>> {
+  /**
+   * `soft` confirms on any clear yes. `hard` is for actions that can't be
+   * undone: a spoken or typed answer must contain `confirmPhrase`.
+   */
+  kind: ConfirmationKind;
+  /** Name of the action being confirmed (e.g. the tool name) */
+  action: string;
+  /** The values the action will use */
+  values: V;
+  /** Describes the action for the current values */
+  describe: (values: V) => ConfirmationDescription;
+  /** Fields the user may correct. Without it, corrections can't be made. */
+  fields?: z.AnyZodObject;
+  /**
+   * Phrase a hard confirmation must contain.
+   * @default "yes, go ahead"
+   */
+  confirmPhrase?: string;
+  /**
+   * Answers offered as buttons.
+   * @default confirm (labelled with the confirm phrase for hard confirmations) and cancel
+   */
+  options?: InterruptOption[];
+  /**
+   * Questions to ask before giving up (each unclear answer or correction uses one).
+   * @default 4
+   */
+  maxPrompts?: number;
+}
+
+/**
+ * The parts of the interrupt that depend on the values being confirmed.
+ */
+export type ConfirmationDescription = Pick<
+  ConfirmationInterrupt,
+  "summary" | "fields" | "spokenPrompt"
+>;
+
+export type ConfirmActionResult<V extends Record<string, unknown>> =
+  | { confirmed: true; values: V; amended: boolean }
+  | { confirmed: false; reason: "denied" | "unclear" };
+
+const DEFAULT_CONFIRM_PHRASE = "yes, go ahead";
+const DEFAULT_MAX_PROMPTS = 4;
+
+/**
+ * What the classifier makes of a free-form answer.
+ */
+interface ClassifiedAnswer {
+  decision: ConfirmationDecision | "unclear";
+  corrections?: Record<string, unknown>;
+}
+
+const confirmationResponseSchema = z.object({
+  decision: z.enum(["confirm", "deny", "amend"]),
+  corrections: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Asks the user to confirm an action and waits for the answer.
+ *
+ * Must be called from inside a graph node or tool, like `interrupt()`. The
+ * node re-runs from the top on every resume, so earlier answers are classified
+ * again; the classifier runs at temperature 0 to keep that stable.
+ *
+ * @example
+ * ```ts
+ * const result = await confirmAction({
+ *   kind: "soft",
+ *   action: "update_skills",
+ *   values: { skill },
+ *   describe: ({ skill }) => ({
+ *     summary: "Add a skill to your profile",
+ *     fields: [{ name: "skill", label: "Skill", value: skill }],
+ *     spokenPrompt: `I'll add ${skill} to your skills. Sound good?`,
+ *   }),
+ *   fields: z.object({ skill: z.string() }),
+ * });
+ * if (!result.confirmed) return "No changes made.";
+ * ```
+ */
+export async function confirmAction<V extends Record<string, unknown>>(
+  options: ConfirmActionOptions<V>
+): Promise<ConfirmActionResult<V>> {
+  const {
+    kind,
+    action,
+    describe,
+    fields,
+    confirmPhrase = DEFAULT_CONFIRM_PHRASE,
+    maxPrompts = DEFAULT_MAX_PROMPTS,
+  } = options;
+  const answerOptions = options.options ?? defaultOptions(kind, confirmPhrase);
+
+  let values = options.values;
+  let amended = false;
+  let preface = "";
+
+  for (let prompt = 0; prompt < maxPrompts; prompt++) {
+    const description = describe(values);
+    const payload: ConfirmationInterrupt = {
+      kind,
+      action,
+      ...description,
+      options: answerOptions,
+      spokenPrompt: preface + description.spokenPrompt,
+    };
+    const answer: unknown = interrupt(payload);
+
+    const structured = confirmationResponseSchema.safeParse(answer);
+    const text = typeof answer === "string" ? answer : "";
+    const response: ConfirmationResponse | null = structured.success
+      ? structured.data
+      : await classifyAnswer(payload, text, fields);
+
+    switch (response?.decision) {
+      case "confirm":
+        // A button press is explicit; words must include the phrase
+        if (kind === "hard" && !structured.success && !containsPhrase(text, confirmPhrase)) {
+          preface = `To go ahead, please say "${confirmPhrase}". `;
+          continue;
+        }
+        return { confirmed: true, values, amended };
+
+      case "deny":
+        return { confirmed: false, reason: "denied" };
+
+      case "amend": {
+        const corrections = parseCorrections(response.corrections, fields);
+        if (!corrections) {
+          preface = "Sorry, I didn't catch what to change. ";
+          continue;
+        }
+        values = { ...values, ...corrections };
+        amended = true;
+        preface = "Updated. ";
+        continue;
+      }
+
+      default:
+        preface = "Sorry, I didn't catch that. ";
+    }
+  }
+
+  console.warn(`[confirmation] No clear answer for ${action} after ${maxPrompts} prompts`);
+  return { confirmed: false, reason: "unclear" };
+}
+
+/**
+ * Classifies a free-form answer with a structured model call.
+ * Returns null when the answer is unclear.
+ */
+async function classifyAnswer(
+  question: ConfirmationInterrupt,
+  answer: string,
+  fields?: z.AnyZodObject
+): Promise<ConfirmationResponse | null> {
+  if (!answer.trim()) return null;
+
+  const shape: z.ZodRawShape = {
+    decision: z
+      .enum(["confirm", "deny", "amend", "unclear"])
+      .describe(
+        "confirm: agrees without changes. deny: declines or cancels. " +
+          "amend: wants to go ahead with changes (e.g. 'yes but change the salary'). " +
+          "unclear: anything else."
+      ),
+  };
+  if (fields) {
+    shape.corrections = fields
+      .partial()
+      .optional()
+      .describe("With amend: only the fields the user asked to change, with their new values");
+  }
+  // Typed loosely: the corrections schema depends on the tool
+  const schema = z.object(shape) as unknown as z.ZodType<ClassifiedAnswer>;
+
+  const model = new ChatOpenAI({ model: "gpt-4o-mini", temperature: 0 });
+  const classifier = model.withStructuredOutput<ClassifiedAnswer>(schema, {
+    name: "classify_confirmation",
+    method: "functionCalling",
+  });
+
+  try {
+    const result = await classifier.invoke([
+      {
+        role: "system",
+        content:
+          "The assistant asked the user to confirm an action. Classify the user's reply. " +
+          (fields
+            ? "Changes can only be made to the fields in the corrections schema."
+            : "No changes can be made; treat requests for changes as deny."),
+      },
+      { role: "assistant", content: describeForClassifier(question) },
+      { role: "user", content: answer },
+    ]);
+
+    if (result.decision === "unclear") return null;
+    return { decision: result.decision, corrections: result.corrections };
+  } catch (error) {
+    console.error("[confirmation] Failed to classify answer:", error);
+    return null;
+  }
+}
+
+/**
+ * The confirmation as the user saw or heard it.
+ */
+function describeForClassifier({ summary, fields, spokenPrompt }: ConfirmationInterrupt): string {
+  const lines = fields.map(({ name, label, value }) => `- ${label} (${name}): ${value}`);
+  return [summary, ...lines, spokenPrompt].join("\n");
+}
+
+/**
+ * Confirm and cancel buttons. Hard confirmations label the confirm button
+ * with the phrase a spoken answer would need.
+ */
+function defaultOptions(kind: ConfirmationKind, confirmPhrase: string): InterruptOption[] {
+  const confirmLabel =
+    kind === "hard" ? confirmPhrase.charAt(0).toUpperCase() + confirmPhrase.slice(1) : "Confirm";
+  return [
+    { decision: "confirm", label: confirmLabel },
+    { decision: "deny", label: "Cancel" },
+  ];
+}
+
+/**
+ * Validates corrections against the amendable fields.
+ * Returns null if there's nothing usable to apply.
+ */
+function parseCorrections(
+  corrections: Record<string, unknown> | undefined,
+  fields?: z.AnyZodObject
+): Record<string, unknown> | null {
+  if (!fields || !corrections) return null;
+
+  const parsed = fields.partial().safeParse(corrections);
+  if (!parsed.success) return null;
+
+  const applied = Object.fromEntries(
+    Object.entries(parsed.data).filter(([, value]) => value !== undefined)
+  );
+  return Object.keys(applied).length > 0 ? applied : null;
+}
+
+/**
+ * Whether `text` contains `phrase`, ignoring case and punctuation
+ * (speech-to-text punctuates freely).
+ */
+function containsPhrase(text: string, phrase: string): boolean {
+  const normalize = (s: string) =>
+    s
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  return ` ${normalize(text)} `.includes(` ${normalize(phrase)} `);
+}
@@ -1,4 +1,4 @@
-import { Pool, neon } from '@neondatabase/serverless';
+import { Pool, type PoolClient } from '@neondatabase/serverless';
 import 'dotenv/config';
 
 // Check for DATABASE_URL
@@ -28,65 +28,36 @@ export async function query(text: string, params: any[] = []) {
 }
 
 /**
- * Creates the `user_profiles` table if it doesn't already exist.
- * This is a simple schema to store profile data as a JSON blob.
+ * Runs `fn` with a client of its own, for work that spans several queries on
+ * one connection (transactions, advisory locks).
+ * @param fn Receives the client, which is released when it settles.
+ * @returns What `fn` returns.
  */
-export async function setupDatabase() {
-  const createTableQuery = `
-    CREATE TABLE IF NOT EXISTS user_profiles (
-      id SERIAL PRIMARY KEY,
-      user_id VARCHAR(255) UNIQUE,
-      profile_data JSONB,
-      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-    );
-  `;
-
-  // Function to update `updated_at` timestamp on row change
-  const createTriggerFunction = `
-    CREATE OR REPLACE FUNCTION update_updated_at_column()
-    RETURNS TRIGGER AS $$
-    BEGIN
-      NEW.updated_at = NOW();
-      RETURN NEW;
-    END;
-    $$ language 'plpgsql';
-  `;
-
-  // Trigger to execute the function
-  const createTrigger = `
-    DO $$
-    BEGIN
-      IF NOT EXISTS (
-        SELECT 1
-        FROM pg_trigger
-        WHERE tgname = 'update_user_profiles_updated_at'
-      ) THEN
-        CREATE TRIGGER update_user_profiles_updated_at
-        BEFORE UPDATE ON user_profiles
-        FOR EACH ROW
-        EXECUTE FUNCTION update_updated_at_column();
-      END IF;
-    END;
-    $$;
-  `;
-
+export async function withClient<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
   try {
-    console.log('Setting up database schema...');
-    await query(createTableQuery);
-    await query(createTriggerFunction);
-    await query(createTrigger);
-    console.log('Database schema setup complete.');
-  } catch (error) {
-    console.error('Error setting up database schema:', error);
-    // It's okay if the table or trigger already exists, but we rethrow for other errors.
-    if (!(error instanceof Error && error.message.includes('already exists'))) {
-      throw error;
-    }
+    return await fn(client);
+  } finally {
+    client.release();
   }
 }
 
-// Run setup on module load
-setupDatabase().catch(err => {
-    console.error("Failed to initialize the database on startup.", err)
-});
+/**
+ * Runs `fn` in a transaction, committing if it resolves and rolling back if
+ * it throws.
+ * @param fn Receives the client to run the transaction's queries on.
+ * @returns What `fn` returns.
+ */
+export async function transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  return withClient(async (client) => {
+    await client.query('BEGIN');
+    try {
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  });
+}
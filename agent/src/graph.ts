@@ -8,14 +8,40 @@
  */
 
 import { z } from "zod";
-import { query } from "./db.js";
-import { RunnableConfig } from "@langchain/core/runnables";
-import { tool } from "@langchain/core/tools";
+import {
+  getProfile,
+  saveProfile as saveStoredProfile,
+  type ChangeSource,
+  type ContractorStatus,
+  type StoredProfile,
+} from "./profiles.js";
+import { confirmAction } from "./confirmation.js";
+import { PostgresJobSource, geocodeFromJobs, type Job, type JobSource } from "./jobs.js";
+import {
+  APPLICATION_STATUSES,
+  createApplication,
+  getApplication,
+  getApplicationForJob,
+  getDueFollowUps,
+  listApplications as listStoredApplications,
+  updateApplication,
+  type Application,
+} from "./applications.js";
+import { createCheckpointer } from "./checkpointer.js";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { tool, type ToolRunnableConfig } from "@langchain/core/tools";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
-import { AIMessage, SystemMessage, HumanMessage } from "@langchain/core/messages";
-import { MemorySaver, START, END, StateGraph, interrupt, Command } from "@langchain/langgraph";
+import { SystemMessage, ToolMessage, type AIMessage } from "@langchain/core/messages";
+import {
+  Annotation,
+  Command,
+  START,
+  END,
+  StateGraph,
+  getCurrentTaskInput,
+  type BaseCheckpointSaver,
+} from "@langchain/langgraph";
 import { ChatOpenAI } from "@langchain/openai";
-import { Annotation } from "@langchain/langgraph";
 import {
   CopilotKitStateAnnotation,
   convertActionsToDynamicStructuredTools,
@@ -25,27 +51,60 @@ import {
 // State Definition (includes CopilotKit state for frontend actions)
 // =============================================================================
 
+/**
+ * User profile information
+ */
+export interface UserProfile {
+  userId?: string;
+  name?: string;
+  email?: string;
+  skills?: string[];
+  experienceYears?: number;
+  desiredRole?: string;
+  salaryRange?: { min?: number; max?: number };
+  locationPreference?: string;
+  remotePreference?: 'remote' | 'hybrid' | 'onsite';
+  // Fractional and contract terms
+  dayRateRange?: { min?: number; max?: number };
+  daysPerWeek?: number;
+  engagementMonths?: { min?: number; max?: number };
+  maxConcurrentClients?: number;
+  availableFrom?: string;
+  contractorStatus?: ContractorStatus;
+  outsideIR35Only?: boolean;
+  isOnboarded?: boolean;
+}
+
+/**
+ * What the coach needs to talk about an application
+ */
+type ApplicationSummary = Pick<
+  Application,
+  "id" | "jobTitle" | "company" | "status" | "followUpOn" | "submittedAt" | "notes"
+>;
+
 const CareerAgentState = Annotation.Root({
   // CopilotKit state annotation includes messages and frontend tools/actions
   ...CopilotKitStateAnnotation.spec,
 
   // User profile information
-  userProfile: Annotation<{
-    userId?: string;
-    name?: string;
-    email?: string;
-    skills?: string[];
-    experienceYears?: number;
-    desiredRole?: string;
-    salaryRange?: { min?: number; max?: number };
-    locationPreference?: string;
-    remotePreference?: 'remote' | 'hybrid' | 'onsite';
-    isOnboarded?: boolean;
-  }>({
+  userProfile: Annotation<UserProfile>({
     reducer: (current, update) => ({ ...current, ...update }),
     default: () => ({}),
   }),
 
+  // The user whose stored profile has been loaded into this thread
+  profileLoadedFor: Annotation<string | null>({
+    reducer: (_, update) => update,
+    default: () => null,
+  }),
+
+  // Applications whose follow-up date has arrived, refreshed each turn
+  dueFollowUps: Annotation<ApplicationSummary[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
   // Current node tracking
   currentNode: Annotation<string>({
     reducer: (_, update) => update,
@@ -65,21 +124,154 @@ const CareerAgentState = Annotation.Root({
 
 export type CareerAgentStateType = typeof CareerAgentState.State;
 
+// =============================================================================
+// Profile
+// =============================================================================
+
+/**
+ * A stored profile in the shape of `userProfile` state
+ */
+function toUserProfile(stored: StoredProfile): UserProfile {
+  return definedValues({
+    userId: stored.userId,
+    name: stored.name,
+    email: stored.email,
+    skills: stored.skills.map((skill) => skill.name),
+    experienceYears: stored.experienceYears,
+    desiredRole: stored.desiredRole,
+    salaryRange: range(stored.salaryMin, stored.salaryMax),
+    locationPreference: stored.locationPreference,
+    remotePreference: stored.remotePreference,
+    dayRateRange: range(stored.dayRateMin, stored.dayRateMax),
+    daysPerWeek: stored.daysPerWeek,
+    engagementMonths: range(stored.engagementMonthsMin, stored.engagementMonthsMax),
+    maxConcurrentClients: stored.maxConcurrentClients,
+    availableFrom: stored.availableFrom,
+    contractorStatus: stored.contractorStatus,
+    outsideIR35Only: stored.outsideIR35Only,
+  });
+}
+
+function range(min: number | undefined, max: number | undefined) {
+  return min === undefined && max === undefined ? undefined : definedValues({ min, max });
+}
+
+function definedValues<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/**
+ * What the coach still needs to know before searching for jobs. A profile is
+ * onboarded when nothing is missing.
+ */
+export function missingProfileFields(profile: UserProfile): string[] {
+  const missing = [
+    !profile.skills?.length && "skills",
+    !profile.desiredRole && "desired role",
+    profile.experienceYears === undefined && "years of experience",
+    profile.salaryRange?.min === undefined &&
+      profile.dayRateRange?.min === undefined &&
+      "minimum salary or day rate",
+    !profile.locationPreference && !profile.remotePreference && "location or remote preference",
+  ];
+  return missing.filter((field): field is string => Boolean(field));
+}
+
+/**
+ * A tool result that also updates `userProfile` in graph state. Outside a
+ * tool call (e.g. invoked directly) there's no message to attach, so only
+ * the text is returned.
+ */
+function withProfileUpdate(config: ToolRunnableConfig, content: string, userProfile: UserProfile) {
+  const toolCallId = config.toolCall?.id;
+  if (!toolCallId) return content;
+  return new Command({
+    update: {
+      userProfile: { ...userProfile, isOnboarded: missingProfileFields(userProfile).length === 0 },
+      messages: [new ToolMessage({ content, tool_call_id: toolCallId, name: config.toolCall?.name })],
+    },
+  });
+}
+
 // =============================================================================
 // Tools with HITL
 // =============================================================================
 
+const CONTRACTOR_STATUSES = ['limited_company', 'umbrella', 'sole_trader', 'employee'] as const satisfies readonly ContractorStatus[];
+
+const CONTRACTOR_STATUS_LABELS: Record<ContractorStatus, string> = {
+  limited_company: 'Limited company',
+  umbrella: 'Umbrella company',
+  sole_trader: 'Sole trader',
+  employee: 'Employee',
+};
+
 /**
- * Save user profile - requires soft confirmation
+ * Profile fields the user can review and correct before saving
  */
-import { query } from "./db.js";
+const profileFields = z.object({
+  skills: z.array(z.string()).optional().describe("List of professional skills"),
+  experienceYears: z.number().optional().describe("Years of professional experience"),
+  desiredRole: z.string().optional().describe("The type of role they're looking for"),
+  salaryMin: z.number().optional().describe("Minimum desired salary"),
+  salaryMax: z.number().optional().describe("Maximum desired salary"),
+  locationPreference: z.string().optional().describe("Preferred work location"),
+  remotePreference: z.enum(['remote', 'hybrid', 'onsite']).optional().describe("Remote work preference"),
+  dayRateMin: z.number().optional().describe("Minimum day rate for fractional or contract work"),
+  dayRateMax: z.number().optional().describe("Maximum day rate for fractional or contract work"),
+  daysPerWeek: z.number().min(0.5).max(5).optional().describe("Days a week they can give one client"),
+  engagementMonthsMin: z.number().optional().describe("Shortest engagement they'd take, in months"),
+  engagementMonthsMax: z.number().optional().describe("Longest engagement they'd take, in months"),
+  maxConcurrentClients: z.number().int().min(1).optional().describe("How many clients they can work with at once"),
+  availableFrom: z.string().date().optional().describe("Earliest start date (YYYY-MM-DD)"),
+  contractorStatus: z.enum(CONTRACTOR_STATUSES).optional().describe("How they work: through a limited company, an umbrella company, as a sole trader, or as an employee"),
+  outsideIR35Only: z.boolean().optional().describe("Whether they only take contracts outside IR35"),
+});
+
+/**
+ * A short, speakable version of the profile for voice confirmations
+ */
+function describeProfileAloud(profile: z.infer<typeof profileFields>): string {
+  const parts = [
+    profile.desiredRole && `looking for ${profile.desiredRole} roles`,
+    profile.experienceYears !== undefined && `${profile.experienceYears} years of experience`,
+    profile.skills?.length && `skills in ${profile.skills.join(', ')}`,
+    (profile.salaryMin || profile.salaryMax) &&
+      `a salary of ${profile.salaryMin ?? '?'} to ${profile.salaryMax ?? '?'}`,
+    profile.locationPreference && `based in ${profile.locationPreference}`,
+    profile.remotePreference && `working ${profile.remotePreference}`,
+    (profile.dayRateMin || profile.dayRateMax) &&
+      `a day rate of ${profile.dayRateMin ?? '?'} to ${profile.dayRateMax ?? '?'}`,
+    profile.daysPerWeek !== undefined && `${profile.daysPerWeek} days a week per client`,
+    (profile.engagementMonthsMin || profile.engagementMonthsMax) &&
+      `engagements of ${profile.engagementMonthsMin ?? '?'} to ${profile.engagementMonthsMax ?? '?'} months`,
+    profile.maxConcurrentClients !== undefined && `up to ${profile.maxConcurrentClients} clients at once`,
+    profile.availableFrom && `available from ${profile.availableFrom}`,
+    profile.contractorStatus && CONTRACTOR_STATUS_LABELS[profile.contractorStatus].toLowerCase(),
+    profile.outsideIR35Only && 'outside IR35 only',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no details yet';
+}
 
-// ... (rest of the file is the same until saveProfile)
+/**
+ * Where a tool call came from, for the profile change log. The server passes
+ * the caller's `channel`; CopilotKit runs are chat.
+ */
+function getProvenance(config: RunnableConfig): { source: ChangeSource; threadId?: string } {
+  const channel = config.configurable?.channel;
+  return {
+    source: channel === 'voice' || channel === 'form' ? channel : 'chat',
+    threadId: config.configurable?.thread_id,
+  };
+}
 
+/**
+ * Save user profile - requires soft confirmation
+ */
 const saveProfile = tool(
-  async ({ userId, skills, experienceYears, desiredRole, salaryMin, salaryMax, locationPreference, remotePreference }) => {
-    // This tool now requires a userId to save the profile against.
-    // The calling agent MUST provide the userId from the user's session.
+  async (proposed, config) => {
+    // Saved for the signed-in user, never an id the model supplies
+    const { userId } = getCurrentTaskInput<CareerAgentStateType>().userProfile;
     if (!userId) {
       return JSON.stringify({
         success: false,
@@ -87,43 +279,55 @@ const saveProfile = tool(
       });
     }
 
-    const profileData = {
-      skills,
-      experienceYears,
-      desiredRole,
-      salaryRange: { min: salaryMin, max: salaryMax },
-      locationPreference,
-      remotePreference,
-    };
-
-    // Soft HITL - ask user to confirm before saving
-    const confirmationMessage = `I'd like to save your profile with:
-- Skills: ${skills?.join(', ') || 'Not specified'}
-- Experience: ${experienceYears || 'Not specified'} years
-- Desired Role: ${desiredRole || 'Not specified'}
-- Salary Range: ${salaryMin ? `$${salaryMin}` : '?'} - ${salaryMax ? `$${salaryMax}` : '?'}
-- Location: ${locationPreference || 'Not specified'}
-- Work Style: ${remotePreference || 'Not specified'}
-
-Is this correct?`;
-
-    const userResponse = interrupt(confirmationMessage);
-
-    if (userResponse?.toLowerCase().includes('yes') || userResponse?.toLowerCase().includes('correct')) {
+    // Soft HITL - ask user to confirm (or correct) before saving
+    const confirmation = await confirmAction({
+      kind: "soft",
+      action: "save_profile",
+      values: proposed,
+      fields: profileFields,
+      describe: (profile) => ({
+        summary: "Save your career profile",
+        fields: [
+          { name: "skills", label: "Skills", value: profile.skills?.join(', ') || 'Not specified' },
+          { name: "experienceYears", label: "Experience", value: profile.experienceYears !== undefined ? `${profile.experienceYears} years` : 'Not specified' },
+          { name: "desiredRole", label: "Desired Role", value: profile.desiredRole || 'Not specified' },
+          { name: "salaryMin", label: "Minimum Salary", value: profile.salaryMin ? `$${profile.salaryMin}` : 'Not specified' },
+          { name: "salaryMax", label: "Maximum Salary", value: profile.salaryMax ? `$${profile.salaryMax}` : 'Not specified' },
+          { name: "locationPreference", label: "Location", value: profile.locationPreference || 'Not specified' },
+          { name: "remotePreference", label: "Work Style", value: profile.remotePreference || 'Not specified' },
+          { name: "dayRateMin", label: "Minimum Day Rate", value: profile.dayRateMin ? `$${profile.dayRateMin}` : 'Not specified' },
+          { name: "dayRateMax", label: "Maximum Day Rate", value: profile.dayRateMax ? `$${profile.dayRateMax}` : 'Not specified' },
+          { name: "daysPerWeek", label: "Days per Week", value: profile.daysPerWeek !== undefined ? `${profile.daysPerWeek}` : 'Not specified' },
+          { name: "engagementMonthsMin", label: "Shortest Engagement", value: profile.engagementMonthsMin ? `${profile.engagementMonthsMin} months` : 'Not specified' },
+          { name: "engagementMonthsMax", label: "Longest Engagement", value: profile.engagementMonthsMax ? `${profile.engagementMonthsMax} months` : 'Not specified' },
+          { name: "maxConcurrentClients", label: "Concurrent Clients", value: profile.maxConcurrentClients !== undefined ? `${profile.maxConcurrentClients}` : 'Not specified' },
+          { name: "availableFrom", label: "Available From", value: profile.availableFrom || 'Not specified' },
+          { name: "contractorStatus", label: "Contractor Status", value: profile.contractorStatus ? CONTRACTOR_STATUS_LABELS[profile.contractorStatus] : 'Not specified' },
+          { name: "outsideIR35Only", label: "IR35", value: profile.outsideIR35Only === undefined ? 'Not specified' : profile.outsideIR35Only ? 'Outside IR35 only' : 'Inside or outside' },
+        ],
+        spokenPrompt: `I'd like to save your profile: ${describeProfileAloud(profile)}. Is this correct?`,
+      }),
+    });
+
+    if (confirmation.confirmed) {
+      const { skills, ...preferences } = confirmation.values;
+
       try {
-        const sql = `
-          INSERT INTO user_profiles (user_id, profile_data)
-          VALUES ($1, $2)
-          ON CONFLICT (user_id)
-          DO UPDATE SET profile_data = EXCLUDED.profile_data, updated_at = CURRENT_TIMESTAMP;
-        `;
-        await query(sql, [userId, JSON.stringify(profileData)]);
-        
-        return JSON.stringify({
-          success: true,
-          message: "Profile saved successfully!",
-          profile: profileData,
-        });
+        const { profile, changes } = await saveStoredProfile(
+          userId,
+          { ...preferences, skills: skills?.map((name) => ({ name })) },
+          getProvenance(config)
+        );
+
+        return withProfileUpdate(
+          config,
+          JSON.stringify({
+            success: true,
+            message: changes.length > 0 ? "Profile saved successfully!" : "Your profile was already up to date.",
+            profile,
+          }),
+          toUserProfile(profile)
+        );
       } catch (error) {
         console.error("Failed to save profile to database:", error);
         return JSON.stringify({
@@ -141,16 +345,7 @@ Is this correct?`;
   {
     name: "save_profile",
     description: "Save the user's career profile to the database. Use this when you have gathered enough information about their skills, experience, and job preferences.",
-    schema: z.object({
-      userId: z.string().describe("The ID of the user to save the profile for. This is required."),
-      skills: z.array(z.string()).optional().describe("List of professional skills"),
-      experienceYears: z.number().optional().describe("Years of professional experience"),
-      desiredRole: z.string().optional().describe("The type of role they're looking for"),
-      salaryMin: z.number().optional().describe("Minimum desired salary"),
-      salaryMax: z.number().optional().describe("Maximum desired salary"),
-      locationPreference: z.string().optional().describe("Preferred work location"),
-      remotePreference: z.enum(['remote', 'hybrid', 'onsite']).optional().describe("Remote work preference"),
-    }),
+    schema: profileFields,
   }
 );
 
@@ -158,18 +353,57 @@ Is this correct?`;
  * Update individual skill - soft confirmation
  */
 const updateSkills = tool(
-  async ({ action, skill }) => {
-    const confirmMessage = action === 'add'
-      ? `I'll add "${skill}" to your skills. Sound good?`
-      : `I'll remove "${skill}" from your skills. Is that right?`;
-
-    const userResponse = interrupt(confirmMessage);
+  async ({ action, skill: proposedSkill }, config) => {
+    const { userProfile } = getCurrentTaskInput<CareerAgentStateType>();
+
+    const confirmation = await confirmAction({
+      kind: "soft",
+      action: "update_skills",
+      values: { skill: proposedSkill },
+      fields: z.object({ skill: z.string().describe("The skill to add or remove") }),
+      describe: ({ skill }) => ({
+        summary: action === 'add' ? "Add a skill to your profile" : "Remove a skill from your profile",
+        fields: [{ name: "skill", label: "Skill", value: skill }],
+        spokenPrompt: action === 'add'
+          ? `I'll add ${skill} to your skills. Sound good?`
+          : `I'll remove ${skill} from your skills. Is that right?`,
+      }),
+    });
 
-    if (userResponse?.toLowerCase().includes('yes') || userResponse?.toLowerCase().includes('good')) {
-      return `${action === 'add' ? 'Added' : 'Removed'} "${skill}" ${action === 'add' ? 'to' : 'from'} your profile.`;
+    if (!confirmation.confirmed) {
+      return "No changes made. What would you like to do instead?";
     }
 
-    return "No changes made. What would you like to do instead?";
+    const skill = confirmation.values.skill.trim();
+    const { userId } = userProfile;
+
+    try {
+      // The stored list is the source of truth once there is one
+      const stored = userId ? await getProfile(userId) : null;
+      const current = stored ? stored.skills.map((s) => s.name) : userProfile.skills ?? [];
+
+      const hasSkill = current.some((s) => s.toLowerCase() === skill.toLowerCase());
+      if (action === 'add' && hasSkill) return `"${skill}" is already in your skills.`;
+      if (action === 'remove' && !hasSkill) return `"${skill}" isn't in your skills.`;
+
+      const skills = action === 'add'
+        ? [...current, skill]
+        : current.filter((s) => s.toLowerCase() !== skill.toLowerCase());
+
+      if (userId) {
+        await saveStoredProfile(userId, { skills: skills.map((name) => ({ name })) }, getProvenance(config));
+      }
+
+      const message = `${action === 'add' ? 'Added' : 'Removed'} "${skill}" ${action === 'add' ? 'to' : 'from'} your profile.`;
+      return withProfileUpdate(
+        config,
+        userId ? message : `${message} Sign in to keep your skills for next time.`,
+        { ...userProfile, skills }
+      );
+    } catch (error) {
+      console.error("Failed to update skills:", error);
+      return "Sorry, I couldn't update your skills. Please try again.";
+    }
   },
   {
     name: "update_skills",
@@ -181,80 +415,321 @@ const updateSkills = tool(
   }
 );
 
+/**
+ * Where search_jobs looks for roles. External feeds are synced into the same
+ * table (see syncJobFeed in jobs.ts), and their coordinates let locations be
+ * searched by radius.
+ */
+const jobSource: JobSource = new PostgresJobSource({ geocode: geocodeFromJobs });
+
 /**
  * Search for jobs - no confirmation needed
  */
 const searchJobs = tool(
-  async ({ query, location, remote, salaryMin }) => {
-    // In production, this would call a job search API
-    const mockJobs = [
-      { title: "Senior Software Engineer", company: "TechCorp", location: "San Francisco, CA", salary: "$150k-$200k", remote: true },
-      { title: "Full Stack Developer", company: "StartupXYZ", location: "New York, NY", salary: "$130k-$170k", remote: true },
-      { title: "Backend Engineer", company: "BigCo Inc", location: "Austin, TX", salary: "$140k-$180k", remote: false },
-    ];
+  async (params) => {
+    try {
+      const result = await jobSource.search(params);
+
+      // Only what the model needs to talk about the roles and apply to them
+      const jobs = result.jobs.map((job) => ({
+        id: job.id,
+        title: job.title,
+        company: job.company,
+        location: job.remote ? `Remote${job.location ? ` (${job.location})` : ''}` : job.location,
+        employmentType: job.employmentType,
+        salary: formatRange(job.salaryMin, job.salaryMax, job.currency, '/year'),
+        dayRate: formatRange(job.dayRateMin, job.dayRateMax, job.currency, '/day'),
+        daysPerWeek: job.daysPerWeek,
+        engagementMonths: job.engagementMonths,
+        startDate: job.startDate,
+        ir35Status: job.ir35Status,
+        skills: job.skills,
+        url: job.url,
+      }));
 
-    return JSON.stringify({
-      jobs: mockJobs,
-      totalResults: 3,
-      query,
-    });
+      return JSON.stringify({
+        jobs,
+        totalResults: result.total,
+        nextOffset: result.nextOffset,
+        query: params.query,
+      });
+    } catch (error) {
+      console.error("Failed to search jobs:", error);
+      return JSON.stringify({
+        jobs: [],
+        totalResults: 0,
+        message: "Sorry, job search isn't available right now. Please try again in a moment.",
+      });
+    }
   },
   {
     name: "search_jobs",
-    description: "Search for job opportunities based on criteria. Use after the user is onboarded.",
+    description: "Search for job opportunities based on criteria. Use after the user is onboarded. Results are paged: pass nextOffset as offset to get more.",
     schema: z.object({
-      query: z.string().describe("Job search query (title, keywords)"),
+      query: z.string().describe("Job search query (title, keywords, skills)"),
       location: z.string().optional().describe("Location preference"),
-      remote: z.boolean().optional().describe("Filter for remote jobs"),
-      salaryMin: z.number().optional().describe("Minimum salary filter"),
+      radiusKm: z.number().optional().describe("How far from the location to search, in km"),
+      remote: z.boolean().optional().describe("true for remote jobs only, false for on-site and hybrid only"),
+      employmentTypes: z.array(z.enum(['full_time', 'part_time', 'contract', 'fractional'])).optional().describe("Kinds of role to include"),
+      salaryMin: z.number().optional().describe("Minimum annual salary"),
+      salaryMax: z.number().optional().describe("Maximum annual salary"),
+      dayRateMin: z.number().optional().describe("Minimum day rate, for fractional and contract roles"),
+      dayRateMax: z.number().optional().describe("Maximum day rate, for fractional and contract roles"),
+      maxDaysPerWeek: z.number().optional().describe("Most days a week the user can give one client"),
+      engagementMonthsMin: z.number().optional().describe("Shortest engagement the user wants, in months"),
+      engagementMonthsMax: z.number().optional().describe("Longest engagement the user wants, in months"),
+      availableFrom: z.string().date().optional().describe("The user's earliest start date (YYYY-MM-DD)"),
+      outsideIR35Only: z.boolean().optional().describe("Leave out contracts inside IR35"),
+      offset: z.number().optional().describe("nextOffset from the previous search, for more results"),
     }),
   }
 );
 
+/**
+ * A pay range for the model to read out, e.g. "USD 600-800/day"
+ */
+function formatRange(min: number | undefined, max: number | undefined, currency: string, unit: string) {
+  if (min === undefined && max === undefined) return undefined;
+  const range =
+    min === undefined ? `up to ${max}` :
+    max === undefined ? `${min}+` :
+    min === max ? `${min}` : `${min}-${max}`;
+  return `${currency} ${range}${unit}`;
+}
+
+function summarizeApplication(application: Application): ApplicationSummary {
+  return definedValues({
+    id: application.id,
+    jobTitle: application.jobTitle,
+    company: application.company,
+    status: application.status,
+    followUpOn: application.followUpOn,
+    submittedAt: application.submittedAt,
+    notes: application.notes,
+  });
+}
+
 /**
  * Apply to a job - requires HARD confirmation
  */
 const applyToJob = tool(
-  async ({ jobId, jobTitle, company, coverLetterPoints }) => {
-    // HARD HITL - this is an important action
-    const confirmMessage = `
-IMPORTANT: I'm about to submit your application to:
+  async ({ jobId, coverLetterPoints }, config) => {
+    const { userId } = getCurrentTaskInput<CareerAgentStateType>().userProfile;
+    if (!userId) {
+      return JSON.stringify({
+        success: false,
+        message: "Please sign in first, so I can keep track of your applications.",
+      });
+    }
 
-Position: ${jobTitle}
-Company: ${company}
+    let job: Job | null;
+    let existing: Application | null = null;
+    try {
+      job = await jobSource.get(jobId);
+      if (job) existing = await getApplicationForJob(userId, job.id);
+    } catch (error) {
+      console.error("Failed to look up job:", error);
+      return JSON.stringify({
+        success: false,
+        message: "Sorry, I couldn't look up that job. Please try again.",
+      });
+    }
 
-Cover letter will highlight:
-${coverLetterPoints?.map(p => `- ${p}`).join('\n') || '- Your relevant experience'}
+    if (!job) {
+      return JSON.stringify({
+        success: false,
+        message: "I couldn't find that job. Search again and apply from the results.",
+      });
+    }
+    if (existing && existing.status !== "draft") {
+      return JSON.stringify({
+        success: false,
+        message: `You've already applied for ${job.title} at ${job.company}. That application is ${existing.status}.`,
+        application: summarizeApplication(existing),
+      });
+    }
 
-This will send your profile to the employer. Do you want me to proceed? Please confirm with "yes, apply" or "no, cancel".`;
+    const { title: jobTitle, company } = job;
 
-    const userResponse = interrupt(confirmMessage);
+    // HARD HITL - this is an important action
+    const confirmation = await confirmAction({
+      kind: "hard",
+      action: "apply_to_job",
+      confirmPhrase: "yes, apply",
+      values: { coverLetterPoints },
+      fields: z.object({
+        coverLetterPoints: z.array(z.string()).describe("Key points to highlight in cover letter"),
+      }),
+      describe: ({ coverLetterPoints }) => ({
+        summary: `Submit your application to ${company}. This sends your profile to the employer.`,
+        fields: [
+          { name: "jobTitle", label: "Position", value: jobTitle },
+          { name: "company", label: "Company", value: company },
+          { name: "coverLetterPoints", label: "Cover letter highlights", value: coverLetterPoints?.join('; ') || 'Your relevant experience' },
+        ],
+        spokenPrompt: `I'm about to submit your application for ${jobTitle} at ${company}, which sends your profile to the employer. To go ahead, say "yes, apply", or say "no, cancel".`,
+      }),
+    });
 
-    if (userResponse?.toLowerCase().includes('yes') && userResponse?.toLowerCase().includes('apply')) {
+    if (!confirmation.confirmed) {
       return JSON.stringify({
-        success: true,
-        message: `Application submitted to ${company} for ${jobTitle}! They'll contact you at your email on file.`,
-        applicationId: `APP-${Date.now()}`,
+        success: false,
+        message: "Application cancelled. Let me know when you're ready to apply.",
       });
     }
 
-    return JSON.stringify({
-      success: false,
-      message: "Application cancelled. Let me know when you're ready to apply.",
-    });
+    try {
+      const { application } = await createApplication(userId, {
+        jobId: job.id,
+        jobTitle,
+        company,
+        status: "submitted",
+        coverLetterPoints: confirmation.values.coverLetterPoints,
+        threadId: config.configurable?.thread_id,
+      });
+
+      return JSON.stringify({
+        success: true,
+        message: `Application submitted to ${company} for ${jobTitle}! They'll contact you at your email on file.`
+          + (application.followUpOn ? ` I'll remind you to follow up on ${application.followUpOn}.` : ''),
+        application: summarizeApplication(application),
+      });
+    } catch (error) {
+      console.error("Failed to save application:", error);
+      return JSON.stringify({
+        success: false,
+        message: "Sorry, I couldn't submit your application. Please try again.",
+      });
+    }
   },
   {
     name: "apply_to_job",
     description: "Submit a job application. Requires explicit user confirmation as this sends their information to an employer.",
     schema: z.object({
-      jobId: z.string().describe("The job ID to apply to"),
-      jobTitle: z.string().describe("The job title"),
-      company: z.string().describe("The company name"),
+      jobId: z.string().describe("The job ID to apply to, from search_jobs"),
       coverLetterPoints: z.array(z.string()).optional().describe("Key points to highlight in cover letter"),
     }),
   }
 );
 
+/**
+ * List the user's applications - no confirmation needed
+ */
+const listApplications = tool(
+  async ({ status }) => {
+    const { userId } = getCurrentTaskInput<CareerAgentStateType>().userProfile;
+    if (!userId) {
+      return JSON.stringify({
+        success: false,
+        message: "Please sign in to see your applications.",
+      });
+    }
+
+    try {
+      const applications = await listStoredApplications(userId, { status });
+      return JSON.stringify({ applications: applications.map(summarizeApplication) });
+    } catch (error) {
+      console.error("Failed to list applications:", error);
+      return JSON.stringify({
+        success: false,
+        message: "Sorry, I couldn't load your applications right now. Please try again.",
+      });
+    }
+  },
+  {
+    name: "list_applications",
+    description: "List the user's job applications with their status (draft, submitted, interviewing, offer or rejected) and follow-up dates.",
+    schema: z.object({
+      status: z.enum(APPLICATION_STATUSES).optional().describe("Only list applications with this status"),
+    }),
+  }
+);
+
+const APPLICATION_STATUS_LABELS: Record<Application["status"], string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  interviewing: 'Interviewing',
+  offer: 'Offer',
+  rejected: 'Rejected',
+};
+
+/**
+ * Application changes the user can review and correct before saving
+ */
+const applicationChanges = z.object({
+  status: z.enum(APPLICATION_STATUSES).optional().describe("The application's new status"),
+  followUpOn: z.string().date().nullable().optional().describe("When to remind the user to follow up (YYYY-MM-DD), or null to cancel the reminder. Moving the status schedules one by default."),
+  notes: z.string().optional().describe("Notes on the application, e.g. who they spoke to"),
+});
+
+/**
+ * Update an application's status or follow-up - soft confirmation
+ */
+const updateApplicationStatus = tool(
+  async ({ applicationId, ...proposed }) => {
+    const { userId } = getCurrentTaskInput<CareerAgentStateType>().userProfile;
+    if (!userId) {
+      return "Please sign in to update your applications.";
+    }
+
+    let application: Application | null;
+    try {
+      application = await getApplication(userId, applicationId);
+    } catch (error) {
+      console.error("Failed to load application:", error);
+      return "Sorry, I couldn't load that application. Please try again.";
+    }
+    if (!application) {
+      return "I couldn't find that application. Use list_applications to get its ID.";
+    }
+
+    const { jobTitle, company } = application;
+    const confirmation = await confirmAction({
+      kind: "soft",
+      action: "update_application_status",
+      values: proposed,
+      fields: applicationChanges,
+      describe: ({ status, followUpOn, notes }) => ({
+        summary: `Update your application for ${jobTitle} at ${company}`,
+        fields: [
+          { name: "status", label: "Status", value: status ? APPLICATION_STATUS_LABELS[status] : 'Unchanged' },
+          { name: "followUpOn", label: "Follow up on", value: followUpOn === null ? 'No reminder' : followUpOn || 'Unchanged' },
+          { name: "notes", label: "Notes", value: notes || 'Unchanged' },
+        ],
+        spokenPrompt: `I'll update your ${jobTitle} application at ${company}: ${[
+          status && `mark it as ${APPLICATION_STATUS_LABELS[status].toLowerCase()}`,
+          followUpOn && `remind you to follow up on ${followUpOn}`,
+          followUpOn === null && 'cancel the follow-up reminder',
+          notes && 'save your notes',
+        ].filter(Boolean).join(', ') || 'no changes'}. Sound right?`,
+      }),
+    });
+
+    if (!confirmation.confirmed) {
+      return "No changes made. What would you like to do instead?";
+    }
+
+    try {
+      const result = await updateApplication(userId, application.id, confirmation.values);
+      if (!result.updated) return result.message;
+
+      const { status, followUpOn } = result.application;
+      return `Your ${jobTitle} application at ${company} is ${status}.`
+        + (followUpOn ? ` I'll remind you to follow up on ${followUpOn}.` : '');
+    } catch (error) {
+      console.error("Failed to update application:", error);
+      return "Sorry, I couldn't update that application. Please try again.";
+    }
+  },
+  {
+    name: "update_application_status",
+    description: "Move an application along (submitted, interviewing, offer or rejected), set or cancel its follow-up reminder, or add notes. Use when the user tells you how an application is going or that they've followed up.",
+    schema: applicationChanges.extend({
+      applicationId: z.string().describe("The application ID, from list_applications"),
+    }),
+  }
+);
+
 /**
  * End conversation
  */
@@ -271,31 +746,99 @@ const endConversation = tool(
   }
 );
 
-const tools = [saveProfile, updateSkills, searchJobs, applyToJob, endConversation];
+const tools = [
+  saveProfile,
+  updateSkills,
+  searchJobs,
+  applyToJob,
+  listApplications,
+  updateApplicationStatus,
+  endConversation,
+];
 
 // =============================================================================
 // Nodes
 // =============================================================================
 
-const SYSTEM_PROMPT = `You are a warm, encouraging career coach assistant. Your goal is to help job seekers with their career journey.
+const SYSTEM_PROMPT = `You are a warm, encouraging career coach assistant. Your goal is to help job seekers with their career journey, especially experienced people looking for fractional roles (working part of the week for one or more clients).
 
 CONVERSATION FLOW:
 1. If the user is not onboarded (profile incomplete), focus on getting to know them
 2. Ask about their skills, experience, and what they're looking for
-3. Use save_profile when you have enough information
-4. Once onboarded, help them search for jobs and prepare applications
+3. If they want fractional or contract work, find out their terms (see below)
+4. Use save_profile when you have enough information
+5. Once onboarded, help them search for jobs and prepare applications
+6. Keep their applications up to date as they hear back (list_applications, update_application_status)
+
+FRACTIONAL TERMS:
+- Day rate range they'd accept
+- Days a week they can give one client, and how many clients they can take on at once
+- Engagement length they want (in months)
+- When they can start
+- How they contract (limited company, umbrella, sole trader or employee), and whether they only take work outside IR35
+Don't ask about IR35 unless they contract in the UK.
 
 IMPORTANT RULES:
 - Be conversational and friendly
 - Ask one question at a time
 - Use the tools to save information and search jobs
+- When searching, pass the user's terms from their profile to search_jobs (day rate, days a week, engagement length, start date, IR35) so results fit them
 - For job applications, always explain what will happen before using apply_to_job
+- If follow-ups are due, mention them early and offer to help chase the employer. Once they've followed up, move the reminder on or cancel it with update_application_status
 
 USER PROFILE:
 {profile}
 
 CURRENT STATUS:
-{status}`;
+{status}
+
+FOLLOW-UPS DUE:
+{followUps}`;
+
+/**
+ * Loads the signed-in user's stored profile into the thread the first time
+ * it sees them. Anything passed for this session wins over the stored values.
+ * If the load fails the run carries on with the session profile and tries
+ * again next turn.
+ */
+async function loadProfileNode(state: CareerAgentStateType) {
+  const session = state.userProfile;
+  const userId = session.userId;
+  if (!userId || state.profileLoadedFor === userId) return {};
+
+  let stored: StoredProfile | null;
+  try {
+    stored = await getProfile(userId);
+  } catch (error) {
+    console.error("[profile] Failed to load profile:", error);
+    return {};
+  }
+
+  const { isOnboarded: _, ...sessionValues } = definedValues(session);
+  const userProfile = stored ? { ...toUserProfile(stored), ...sessionValues } : sessionValues;
+  return {
+    userProfile: { ...userProfile, isOnboarded: missingProfileFields(userProfile).length === 0 },
+    profileLoadedFor: userId,
+  };
+}
+
+/**
+ * Refreshes the signed-in user's due follow-ups, at the start of a turn and
+ * after tools (which may have moved them). Keeps the last list if the lookup
+ * fails.
+ */
+async function loadFollowUpsNode(state: CareerAgentStateType) {
+  const { userId } = state.userProfile;
+  if (!userId) return {};
+
+  try {
+    const applications = await getDueFollowUps(userId);
+    return { dueFollowUps: applications.map(summarizeApplication) };
+  } catch (error) {
+    console.error("[applications] Failed to load follow-ups:", error);
+    return {};
+  }
+}
 
 async function chatNode(state: CareerAgentStateType, config: RunnableConfig) {
   const model = new ChatOpenAI({
@@ -311,12 +854,14 @@ async function chatNode(state: CareerAgentStateType, config: RunnableConfig) {
   const modelWithTools = model.bindTools(allTools);
 
   const profile = state.userProfile;
-  const isOnboarded = profile.isOnboarded || (profile.skills?.length && profile.desiredRole);
+  const missing = missingProfileFields(profile);
+  const isOnboarded = missing.length === 0;
 
   const systemMessage = new SystemMessage({
     content: SYSTEM_PROMPT
       .replace('{profile}', JSON.stringify(profile, null, 2))
-      .replace('{status}', isOnboarded ? 'User is onboarded - ready for job search' : 'User needs onboarding - gather their profile information'),
+      .replace('{status}', isOnboarded ? 'User is onboarded - ready for job search' : `User needs onboarding - still need their ${missing.join(', ')}`)
+      .replace('{followUps}', state.dueFollowUps.length > 0 ? JSON.stringify(state.dueFollowUps, null, 2) : 'None'),
   });
 
   const response = await modelWithTools.invoke(
@@ -326,6 +871,7 @@ async function chatNode(state: CareerAgentStateType, config: RunnableConfig) {
 
   return {
     messages: [response],
+    userProfile: { isOnboarded },
     currentNode: isOnboarded ? "job_search" : "onboarding",
   };
 }
@@ -355,16 +901,25 @@ function shouldContinue(state: CareerAgentStateType) {
 // =============================================================================
 
 const workflow = new StateGraph(CareerAgentState)
+  .addNode("load_profile", loadProfileNode)
+  .addNode("load_follow_ups", loadFollowUpsNode)
   .addNode("chat", chatNode)
   .addNode("tools", new ToolNode(tools))
-  .addEdge(START, "chat")
-  .addEdge("tools", "chat")
+  .addEdge(START, "load_profile")
+  .addEdge("load_profile", "load_follow_ups")
+  .addEdge("load_follow_ups", "chat")
+  .addEdge("tools", "load_follow_ups")
   .addConditionalEdges("chat", shouldContinue);
 
-const memory = new MemorySaver();
+/**
+ * Compiles the graph with a checkpointer. Tests can pass a `MemorySaver`.
+ */
+export function createGraph(checkpointer: BaseCheckpointSaver) {
+  return workflow.compile({ checkpointer });
+}
 
-export const graph = workflow.compile({
-  checkpointer: memory,
-});
+export const checkpointer = createCheckpointer();
+
+export const graph = createGraph(checkpointer);
 
 export { CareerAgentState };
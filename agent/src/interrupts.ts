@@ -0,0 +1,55 @@
+/**
+ * Interrupt payloads
+ *
+ * Every `interrupt()` in the graph sends a `ConfirmationInterrupt` rather than
+ * a free-form string, so each client can present it its own way: the
+ * CopilotKit UI renders `summary`, `fields` and `options`, the voice agent
+ * speaks `spokenPrompt`, and `/invoke` and `/stream` return it as-is in
+ * `interruptValue`.
+ */
+
+import { z } from "zod";
+
+/**
+ * A value the user is asked to check, formatted for display.
+ */
+export const interruptFieldSchema = z.object({
+  /** Key of the value in the tool's arguments */
+  name: z.string(),
+  label: z.string(),
+  value: z.string(),
+});
+
+/**
+ * An answer the user can pick. Resuming with `{ decision }` selects it.
+ */
+export const interruptOptionSchema = z.object({
+  decision: z.enum(["confirm", "deny", "amend"]),
+  label: z.string(),
+});
+
+export const confirmationInterruptSchema = z.object({
+  /** `hard` for actions that can't be undone (they need an explicit phrase by voice) */
+  kind: z.enum(["soft", "hard"]),
+  /** Name of the action waiting for confirmation (the tool name) */
+  action: z.string(),
+  /** One-line description of what will happen */
+  summary: z.string(),
+  fields: z.array(interruptFieldSchema),
+  options: z.array(interruptOptionSchema),
+  /** The question as it should be read aloud */
+  spokenPrompt: z.string(),
+});
+
+export type InterruptField = z.infer<typeof interruptFieldSchema>;
+export type InterruptOption = z.infer<typeof interruptOptionSchema>;
+export type ConfirmationInterrupt = z.infer<typeof confirmationInterruptSchema>;
+
+/**
+ * Reads an interrupt value from graph state, or null if it isn't a
+ * `ConfirmationInterrupt`.
+ */
+export function parseInterrupt(value: unknown): ConfirmationInterrupt | null {
+  const parsed = confirmationInterruptSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
@@ -0,0 +1,483 @@
+/**
+ * Job search
+ *
+ * `search_jobs` queries a `JobSource`. The default source is the `jobs` table
+ * in Postgres (migration 002), searched with full-text ranking over title,
+ * skills and description plus filters for location (by name or radius),
+ * remote work, salary, and the fractional terms (day rate, days a week,
+ * engagement length, start date, IR35). Salary and day-rate filters match on
+ * overlapping ranges, so a role paying 600-800/day matches a search for
+ * 700-900/day.
+ *
+ * External feeds plug in as `JobFeed` adapters: `syncJobFeed()` pulls their
+ * listings into the table, keyed by source and external id, so they are
+ * searched like any other job. A live API can instead implement `JobSource`
+ * directly. Feeds that send coordinates also make radius search work:
+ * `geocodeFromJobs()` places a location name from the jobs stored there.
+ */
+
+import { query } from "./db.js";
+
+export type EmploymentType = "full_time" | "part_time" | "contract" | "fractional";
+
+/** UK off-payroll status of a contract: inside IR35 is taxed like employment */
+export type IR35Status = "inside" | "outside" | "undetermined";
+
+export interface Job {
+  id: string;
+  /** Where the listing came from (`manual`, or the feed's name) */
+  source: string;
+  /** The listing's id in its source */
+  externalId?: string;
+  title: string;
+  company: string;
+  description: string;
+  skills: string[];
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  remote: boolean;
+  employmentType: EmploymentType;
+  /** Annual salary range */
+  salaryMin?: number;
+  salaryMax?: number;
+  /** Day-rate range, for fractional and contract roles */
+  dayRateMin?: number;
+  dayRateMax?: number;
+  /** ISO 4217 code for salary and day rate */
+  currency: string;
+  /** Days a week the role needs, for fractional and part-time roles */
+  daysPerWeek?: number;
+  /** Length of the engagement in months (unset for permanent or open-ended roles) */
+  engagementMonths?: number;
+  /** ISO date the engagement starts */
+  startDate?: string;
+  ir35Status?: IR35Status;
+  url?: string;
+  /** ISO timestamp */
+  postedAt: string;
+}
+
+/**
+ * A listing to store. `source` and `externalId` identify it, so storing it
+ * again updates the existing row.
+ */
+export type JobInput = Omit<Job, "id" | "remote" | "employmentType" | "currency" | "postedAt"> &
+  Partial<Pick<Job, "remote" | "employmentType" | "currency" | "postedAt">>;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface JobSearchParams {
+  /** Keywords matched against title, skills and description */
+  query?: string;
+  /** Place name. Searched by radius when it can be geocoded, otherwise by name. */
+  location?: string;
+  /** Search around a point instead of a place name */
+  near?: Coordinates;
+  /**
+   * Search radius around `near` or a geocoded `location` (km).
+   * @default 50
+   */
+  radiusKm?: number;
+  /** `true` for remote roles only, `false` for on-site and hybrid only */
+  remote?: boolean;
+  employmentTypes?: EmploymentType[];
+  /** Annual salary range the role's range must overlap */
+  salaryMin?: number;
+  salaryMax?: number;
+  /** Day-rate range the role's range must overlap */
+  dayRateMin?: number;
+  dayRateMax?: number;
+  /** Most days a week the user can work */
+  maxDaysPerWeek?: number;
+  /** Engagement length range (months) the role must fall within */
+  engagementMonthsMin?: number;
+  engagementMonthsMax?: number;
+  /** ISO date the user can start. Roles starting earlier are left out. */
+  availableFrom?: string;
+  /** Leave out roles inside IR35 */
+  outsideIR35Only?: boolean;
+  /**
+   * Results per page (at most 50).
+   * @default 10
+   */
+  limit?: number;
+  /** Results to skip, from a previous page's `nextOffset` */
+  offset?: number;
+}
+
+export interface JobSearchResult {
+  jobs: Job[];
+  /** Matches across all pages */
+  total: number;
+  offset: number;
+  /** Offset of the next page, or null on the last page */
+  nextOffset: number | null;
+}
+
+/**
+ * Somewhere jobs can be searched.
+ */
+export interface JobSource {
+  readonly name: string;
+  search(params: JobSearchParams): Promise<JobSearchResult>;
+  /** A job by id, or null if there's no such job */
+  get(id: string): Promise<Job | null>;
+}
+
+/**
+ * An external listings feed, synced into the jobs table by `syncJobFeed()`.
+ */
+export interface JobFeed {
+  /** Stored as each job's `source` */
+  readonly name: string;
+  /** Current listings. Each needs an `externalId`. */
+  fetchJobs(): Promise<Omit<JobInput, "source">[]>;
+}
+
+export interface PostgresJobSourceOptions {
+  /**
+   * Resolves a place name for radius searches. Without it, `location` is
+   * matched against job locations by name.
+   */
+  geocode?: (location: string) => Promise<Coordinates | null>;
+}
+
+interface JobRow {
+  id: string;
+  source: string;
+  external_id: string | null;
+  title: string;
+  company: string;
+  description: string;
+  skills: string[] | null;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  remote: boolean;
+  employment_type: EmploymentType;
+  salary_min: number | null;
+  salary_max: number | null;
+  day_rate_min: number | null;
+  day_rate_max: number | null;
+  currency: string;
+  days_per_week: number | null;
+  engagement_months: number | null;
+  start_date: Date | string | null;
+  ir35_status: IR35Status | null;
+  url: string | null;
+  posted_at: Date;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const DEFAULT_RADIUS_KM = 50;
+const EARTH_RADIUS_KM = 6371;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Jobs stored in the `jobs` table.
+ */
+export class PostgresJobSource implements JobSource {
+  readonly name = "postgres";
+  #geocode?: (location: string) => Promise<Coordinates | null>;
+
+  constructor(options: PostgresJobSourceOptions = {}) {
+    this.#geocode = options.geocode;
+  }
+
+  async search(params: JobSearchParams): Promise<JobSearchResult> {
+    const limit = Math.min(Math.max(Math.trunc(params.limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+    const offset = Math.max(Math.trunc(params.offset ?? 0), 0);
+
+    const values: unknown[] = [];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+    const where: string[] = ["(expires_at IS NULL OR expires_at > NOW())"];
+
+    const orderBy: string[] = [];
+    if (params.query?.trim()) {
+      const tsQuery = `websearch_to_tsquery('english', ${param(params.query)})`;
+      where.push(`search_vector @@ ${tsQuery}`);
+      orderBy.push(`ts_rank_cd(search_vector, ${tsQuery}) DESC`);
+    }
+
+    let distance = "NULL::double precision";
+    const near = params.near ?? (params.location ? await this.#resolve(params.location) : null);
+    if (near) {
+      // Haversine distance, so no PostGIS is needed
+      const lat = param(near.latitude);
+      const lng = param(near.longitude);
+      distance = `(${EARTH_RADIUS_KM} * 2 * ASIN(LEAST(1, SQRT(
+        POWER(SIN(RADIANS(latitude - ${lat}) / 2), 2) +
+        COS(RADIANS(${lat})) * COS(RADIANS(latitude)) * POWER(SIN(RADIANS(longitude - ${lng}) / 2), 2)
+      ))))`;
+      // Remote roles can be done from anywhere, so distance doesn't rule them out
+      where.push(`(remote OR (latitude IS NOT NULL AND longitude IS NOT NULL
+        AND ${distance} <= ${param(params.radiusKm ?? DEFAULT_RADIUS_KM)}))`);
+      orderBy.push("distance_km ASC");
+    } else if (params.location?.trim()) {
+      where.push(`location ILIKE ${param(`%${escapeLike(params.location.trim())}%`)}`);
+    }
+
+    if (params.remote !== undefined) {
+      where.push(`remote = ${param(params.remote)}`);
+    }
+    if (params.employmentTypes?.length) {
+      where.push(`employment_type = ANY(${param(params.employmentTypes)})`);
+    }
+    // A missing bound on either side leaves that end of the range open
+    if (params.salaryMin !== undefined || params.salaryMax !== undefined) {
+      where.push(
+        rangeOverlap("salary_min", "salary_max", params.salaryMin, params.salaryMax, param)
+      );
+    }
+    if (params.dayRateMin !== undefined || params.dayRateMax !== undefined) {
+      where.push(
+        rangeOverlap("day_rate_min", "day_rate_max", params.dayRateMin, params.dayRateMax, param)
+      );
+    }
+    if (params.maxDaysPerWeek !== undefined) {
+      where.push(`(days_per_week IS NULL OR days_per_week <= ${param(params.maxDaysPerWeek)})`);
+    }
+    // Roles without these details are kept: they're often agreed at interview
+    if (params.engagementMonthsMin !== undefined) {
+      const min = param(params.engagementMonthsMin);
+      where.push(`(engagement_months IS NULL OR engagement_months >= ${min}::numeric)`);
+    }
+    if (params.engagementMonthsMax !== undefined) {
+      const max = param(params.engagementMonthsMax);
+      where.push(`(engagement_months IS NULL OR engagement_months <= ${max}::numeric)`);
+    }
+    if (params.availableFrom) {
+      where.push(`(start_date IS NULL OR start_date >= ${param(params.availableFrom)}::date)`);
+    }
+    if (params.outsideIR35Only) {
+      where.push(`ir35_status IS DISTINCT FROM 'inside'`);
+    }
+
+    const sql = `
+      SELECT *, ${distance} AS distance_km, COUNT(*) OVER() AS total
+      FROM jobs
+      WHERE ${where.join("\n        AND ")}
+      ORDER BY ${[...orderBy, "posted_at DESC", "id"].join(", ")}
+      LIMIT ${param(limit)} OFFSET ${param(offset)}
+    `;
+    const result = await query(sql, values);
+
+    const total = result.rows.length > 0 ? Number(result.rows[0].total) : 0;
+    return {
+      jobs: result.rows.map(rowToJob),
+      total,
+      offset,
+      nextOffset: offset + limit < total ? offset + limit : null,
+    };
+  }
+
+  async get(id: string): Promise<Job | null> {
+    // Ids come from the model, so anything that isn't a UUID is just not found
+    if (!UUID_PATTERN.test(id)) return null;
+    const result = await query(`SELECT * FROM jobs WHERE id = $1`, [id]);
+    return result.rows[0] ? rowToJob(result.rows[0]) : null;
+  }
+
+  /**
+   * Stores listings, updating any already stored from the same source.
+   * Returns the number stored.
+   */
+  async upsert(jobs: JobInput[]): Promise<number> {
+    const sql = `
+      INSERT INTO jobs (
+        source, external_id, title, company, description, skills, location, latitude, longitude,
+        remote, employment_type, salary_min, salary_max, day_rate_min, day_rate_max, currency,
+        days_per_week, engagement_months, start_date, ir35_status, url, posted_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18,
+        $19, $20, $21, COALESCE($22, NOW()))
+      ON CONFLICT (source, external_id) DO UPDATE SET
+        title = EXCLUDED.title,
+        company = EXCLUDED.company,
+        description = EXCLUDED.description,
+        skills = EXCLUDED.skills,
+        location = EXCLUDED.location,
+        latitude = EXCLUDED.latitude,
+        longitude = EXCLUDED.longitude,
+        remote = EXCLUDED.remote,
+        employment_type = EXCLUDED.employment_type,
+        salary_min = EXCLUDED.salary_min,
+        salary_max = EXCLUDED.salary_max,
+        day_rate_min = EXCLUDED.day_rate_min,
+        day_rate_max = EXCLUDED.day_rate_max,
+        currency = EXCLUDED.currency,
+        days_per_week = EXCLUDED.days_per_week,
+        engagement_months = EXCLUDED.engagement_months,
+        start_date = EXCLUDED.start_date,
+        ir35_status = EXCLUDED.ir35_status,
+        url = EXCLUDED.url,
+        posted_at = EXCLUDED.posted_at,
+        expires_at = NULL;
+    `;
+
+    for (const job of jobs) {
+      await query(sql, [
+        job.source,
+        job.externalId ?? null,
+        job.title,
+        job.company,
+        job.description,
+        job.skills,
+        job.location ?? null,
+        job.latitude ?? null,
+        job.longitude ?? null,
+        job.remote ?? false,
+        job.employmentType ?? "full_time",
+        job.salaryMin ?? null,
+        job.salaryMax ?? null,
+        job.dayRateMin ?? null,
+        job.dayRateMax ?? null,
+        job.currency ?? "USD",
+        job.daysPerWeek ?? null,
+        job.engagementMonths ?? null,
+        job.startDate ?? null,
+        job.ir35Status ?? null,
+        job.url ?? null,
+        job.postedAt ?? null,
+      ]);
+    }
+    return jobs.length;
+  }
+
+  async #resolve(location: string): Promise<Coordinates | null> {
+    if (!this.#geocode) return null;
+    try {
+      return await this.#geocode(location);
+    } catch (error) {
+      console.warn(`[jobs] Failed to geocode "${location}", matching by name:`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Geocodes a place name from the coordinates of stored jobs located there, for
+ * `PostgresJobSourceOptions.geocode`. Feeds that send coordinates with their
+ * listings teach it their places. When several stored locations start with
+ * the name ("London, UK" and "London, ON"), the one with the most jobs wins.
+ * Returns null for places no stored job has coordinates for.
+ */
+export async function geocodeFromJobs(location: string): Promise<Coordinates | null> {
+  const result = await query(
+    `SELECT AVG(latitude) AS latitude, AVG(longitude) AS longitude
+     FROM jobs
+     WHERE location ILIKE $1 AND latitude IS NOT NULL AND longitude IS NOT NULL
+     GROUP BY lower(location)
+     ORDER BY COUNT(*) DESC
+     LIMIT 1`,
+    [`${escapeLike(location.trim())}%`]
+  );
+  const row = result.rows[0];
+  return row ? { latitude: Number(row.latitude), longitude: Number(row.longitude) } : null;
+}
+
+/**
+ * Pulls a feed's current listings into the jobs table, and expires the
+ * feed's listings that are no longer in it. Returns the number synced.
+ */
+export async function syncJobFeed(feed: JobFeed, store: PostgresJobSource): Promise<number> {
+  const listings = await feed.fetchJobs();
+  const jobs = listings
+    .filter((job) => job.externalId)
+    .map((job) => ({ ...job, source: feed.name }));
+  if (jobs.length < listings.length) {
+    const skipped = listings.length - jobs.length;
+    console.warn(`[jobs] Skipped ${skipped} ${feed.name} listings without an externalId`);
+  }
+  // An empty feed is more likely an outage than every listing closing at once
+  if (jobs.length === 0) {
+    console.warn(`[jobs] ${feed.name} returned no listings; keeping the stored ones`);
+    return 0;
+  }
+
+  const synced = await store.upsert(jobs);
+  await query(
+    `UPDATE jobs SET expires_at = NOW()
+     WHERE source = $1 AND expires_at IS NULL AND NOT (external_id = ANY($2))`,
+    [feed.name, jobs.map((job) => job.externalId)]
+  );
+
+  console.log(`[jobs] Synced ${synced} listings from ${feed.name}`);
+  return synced;
+}
+
+/**
+ * Condition for a stored range overlapping the requested one.
+ * Rows with neither bound never match.
+ */
+function rangeOverlap(
+  minColumn: string,
+  maxColumn: string,
+  min: number | undefined,
+  max: number | undefined,
+  param: (value: unknown) => string
+): string {
+  const conditions = [`COALESCE(${minColumn}, ${maxColumn}) IS NOT NULL`];
+  // Cast so fractional amounts compare against the integer columns
+  if (min !== undefined) {
+    conditions.push(`COALESCE(${maxColumn}, ${minColumn}) >= ${param(min)}::numeric`);
+  }
+  if (max !== undefined) {
+    conditions.push(`COALESCE(${minColumn}, ${maxColumn}) <= ${param(max)}::numeric`);
+  }
+  return `(${conditions.join(" AND ")})`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return value === null || value === undefined ? undefined : Number(value);
+}
+
+/**
+ * `YYYY-MM-DD` for a DATE column (parsed as local midnight by the driver).
+ */
+function toISODate(value: Date | string): string {
+  if (typeof value === "string") return value.slice(0, 10);
+  const month = String(value.getMonth() + 1).padStart(2, "0");
+  const day = String(value.getDate()).padStart(2, "0");
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+function rowToJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    source: row.source,
+    externalId: row.external_id ?? undefined,
+    title: row.title,
+    company: row.company,
+    description: row.description,
+    skills: row.skills ?? [],
+    location: row.location ?? undefined,
+    latitude: optionalNumber(row.latitude),
+    longitude: optionalNumber(row.longitude),
+    remote: row.remote,
+    employmentType: row.employment_type,
+    salaryMin: optionalNumber(row.salary_min),
+    salaryMax: optionalNumber(row.salary_max),
+    dayRateMin: optionalNumber(row.day_rate_min),
+    dayRateMax: optionalNumber(row.day_rate_max),
+    currency: row.currency,
+    daysPerWeek: optionalNumber(row.days_per_week),
+    engagementMonths: optionalNumber(row.engagement_months),
+    startDate: row.start_date ? toISODate(row.start_date) : undefined,
+    ir35Status: row.ir35_status ?? undefined,
+    url: row.url ?? undefined,
+    postedAt: new Date(row.posted_at).toISOString(),
+  };
+}
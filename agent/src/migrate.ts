@@ -0,0 +1,262 @@
+/**
+ * Schema migrations
+ *
+ * Migrations live in `agent/migrations/` as `NNN_name.up.sql`, with an
+ * optional `NNN_name.down.sql` to undo them, and run in version order. Each
+ * runs in its own transaction and is recorded in the `migrations` table with
+ * a checksum of its up file; editing a migration after it has been applied is
+ * an error, so add a new one instead.
+ *
+ * The agent server applies pending migrations when it starts, taking an
+ * advisory lock so servers starting together don't race. Run the CLI first
+ * when serving the graph some other way (e.g. `npm run dev`).
+ *
+ * CLI:
+ *   npm run migrate              apply pending migrations
+ *   npm run migrate -- down [n]  undo the last n migrations (default 1)
+ *   npm run migrate -- status    list migrations and whether they're applied
+ */
+
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import type { PoolClient } from "@neondatabase/serverless";
+import { withClient } from "./db.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  /** null when the migration can't be undone */
+  down: string | null;
+  /** sha256 of the up file */
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** ISO timestamp, or null if pending */
+  appliedAt: string | null;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("../migrations/", import.meta.url));
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.(up|down)\.sql$/;
+// Arbitrary, shared by every process running migrations on this database
+const LOCK_ID = 7_202_101;
+
+/**
+ * Reads the migration files, in version order.
+ */
+export async function loadMigrations(dir = MIGRATIONS_DIR): Promise<Migration[]> {
+  const files = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of await readdir(dir)) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+    const [, version, name, direction] = match;
+
+    const entry = files.get(Number(version)) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(`Migration ${version} has two names: ${entry.name} and ${name}`);
+    }
+    entry[direction as "up" | "down"] = await readFile(`${dir}/${file}`, "utf8");
+    files.set(Number(version), entry);
+  }
+
+  return [...files.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, { name, up, down }]) => {
+      if (up === undefined) throw new Error(`Migration ${label({ version, name })} has no up file`);
+      return {
+        version,
+        name,
+        up,
+        down: down ?? null,
+        checksum: createHash("sha256").update(up).digest("hex"),
+      };
+    });
+}
+
+/**
+ * Applies pending migrations, up to and including version `to` if given.
+ * Returns the migrations applied.
+ */
+export async function migrateUp(options: { to?: number } = {}): Promise<Migration[]> {
+  const migrations = await loadMigrations();
+
+  return withMigrationLock(async (client, applied) => {
+    verifyChecksums(migrations, applied);
+
+    const pending = migrations.filter(
+      (m) => !applied.has(m.version) && (options.to === undefined || m.version <= options.to)
+    );
+    for (const migration of pending) {
+      await inTransaction(client, async () => {
+        await client.query(migration.up);
+        await client.query(
+          `INSERT INTO migrations (version, name, checksum) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+      console.log(`[migrate] Applied ${label(migration)}`);
+    }
+    return pending;
+  });
+}
+
+/**
+ * Undoes the last `steps` applied migrations (default 1), or every migration
+ * after version `to`. Returns the migrations undone.
+ */
+export async function migrateDown(
+  options: { steps?: number; to?: number } = {}
+): Promise<Migration[]> {
+  const migrations = await loadMigrations();
+
+  return withMigrationLock(async (client, applied) => {
+    verifyChecksums(migrations, applied);
+
+    const candidates = migrations.filter((m) => applied.has(m.version)).reverse();
+    const toUndo =
+      options.to !== undefined
+        ? candidates.filter((m) => m.version > options.to!)
+        : candidates.slice(0, options.steps ?? 1);
+
+    for (const migration of toUndo) {
+      if (migration.down === null) {
+        throw new Error(`Migration ${label(migration)} has no down file and can't be undone`);
+      }
+      await inTransaction(client, async () => {
+        await client.query(migration.down!);
+        await client.query(`DELETE FROM migrations WHERE version = $1`, [migration.version]);
+      });
+      console.log(`[migrate] Undid ${label(migration)}`);
+    }
+    return toUndo;
+  });
+}
+
+/**
+ * Every migration, applied or not, in version order.
+ */
+export async function migrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = await loadMigrations();
+
+  return withMigrationLock(async (_client, applied) =>
+    migrations.map((m) => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: applied.get(m.version)?.applied_at.toISOString() ?? null,
+    }))
+  );
+}
+
+/**
+ * Runs `fn` holding the migrations lock, with the applied migrations by version.
+ */
+async function withMigrationLock<T>(
+  fn: (client: PoolClient, applied: Map<number, AppliedMigration>) => Promise<T>
+): Promise<T> {
+  return withClient(async (client) => {
+    await client.query(`SELECT pg_advisory_lock($1)`, [LOCK_ID]);
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          checksum CHAR(64) NOT NULL,
+          applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      const result = await client.query<AppliedMigration>(
+        `SELECT version, name, checksum, applied_at FROM migrations`
+      );
+      return await fn(client, new Map(result.rows.map((row) => [row.version, row])));
+    } finally {
+      await client.query(`SELECT pg_advisory_unlock($1)`, [LOCK_ID]);
+    }
+  });
+}
+
+async function inTransaction(client: PoolClient, fn: () => Promise<void>): Promise<void> {
+  await client.query("BEGIN");
+  try {
+    await fn();
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * Fails if an applied migration's file is missing or has changed.
+ */
+function verifyChecksums(migrations: Migration[], applied: Map<number, AppliedMigration>): void {
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  for (const row of applied.values()) {
+    const migration = byVersion.get(row.version);
+    if (!migration) {
+      throw new Error(`Migration ${label(row)} is applied but its file is missing`);
+    }
+    if (migration.checksum !== row.checksum.trim()) {
+      throw new Error(
+        `Migration ${label(migration)} has changed since it was applied. Add a new migration instead.`
+      );
+    }
+  }
+}
+
+function label(migration: Pick<Migration, "version" | "name">): string {
+  return `${String(migration.version).padStart(3, "0")}_${migration.name}`;
+}
+
+// CLI entry point
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const [command = "up", arg] = process.argv.slice(2);
+
+  const run = async () => {
+    switch (command) {
+      case "up": {
+        const applied = await migrateUp();
+        console.log(applied.length > 0 ? `Applied ${applied.length} migrations.` : "Up to date.");
+        break;
+      }
+      case "down": {
+        const steps = arg === undefined ? 1 : Number(arg);
+        if (!Number.isInteger(steps) || steps < 1) {
+          throw new Error(`down takes a number of migrations to undo, got "${arg}"`);
+        }
+        const undone = await migrateDown({ steps });
+        console.log(`Undid ${undone.length} migrations.`);
+        break;
+      }
+      case "status":
+        for (const migration of await migrationStatus()) {
+          const { appliedAt } = migration;
+          console.log(
+            appliedAt ? `applied  ${label(migration)}  ${appliedAt}` : `pending  ${label(migration)}`
+          );
+        }
+        break;
+      default:
+        throw new Error(`Unknown command "${command}". Use up, down [n] or status.`);
+    }
+  };
+
+  run().then(
+    () => process.exit(0),
+    (error) => {
+      console.error("[migrate]", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  );
+}
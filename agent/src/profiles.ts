@@ -0,0 +1,349 @@
+/**
+ * Profile storage
+ *
+ * Profiles are stored in typed tables (migration 004): identity on
+ * `user_profiles`, plus skills with proficiency, experience entries and job
+ * preferences. Every save diffs the profile field by field and appends what
+ * changed to `profile_changes`, with the channel it came from (voice, chat,
+ * the profile form) and the conversation thread, so each value can be traced
+ * back to where the user said it.
+ */
+
+import type { PoolClient } from "@neondatabase/serverless";
+import { query, transaction, withClient } from "./db.js";
+
+export type Proficiency = "beginner" | "intermediate" | "advanced" | "expert";
+
+export type ContractorStatus = "limited_company" | "umbrella" | "sole_trader" | "employee";
+
+/** Where a profile change came from */
+export type ChangeSource = "voice" | "chat" | "form" | "system";
+
+export interface ProfileSkill {
+  name: string;
+  proficiency?: Proficiency;
+}
+
+export interface ExperienceEntry {
+  title: string;
+  company?: string;
+  /** ISO dates. No end date means current. */
+  startDate?: string;
+  endDate?: string;
+  description?: string;
+}
+
+export interface ProfilePreferences {
+  desiredRole?: string;
+  experienceYears?: number;
+  salaryMin?: number;
+  salaryMax?: number;
+  locationPreference?: string;
+  remotePreference?: "remote" | "hybrid" | "onsite";
+  dayRateMin?: number;
+  dayRateMax?: number;
+  daysPerWeek?: number;
+  engagementMonthsMin?: number;
+  engagementMonthsMax?: number;
+  maxConcurrentClients?: number;
+  /** ISO date */
+  availableFrom?: string;
+  contractorStatus?: ContractorStatus;
+  outsideIR35Only?: boolean;
+}
+
+export interface StoredProfile extends ProfilePreferences {
+  userId: string;
+  name?: string;
+  email?: string;
+  skills: ProfileSkill[];
+  experience: ExperienceEntry[];
+}
+
+/**
+ * Fields to change. Omitted fields are left as they are; `null` clears one.
+ * `skills` and `experience` replace the whole list.
+ */
+export type ProfileUpdate = {
+  [K in keyof Omit<StoredProfile, "userId">]?: StoredProfile[K] | null;
+};
+
+export interface Provenance {
+  source: ChangeSource;
+  threadId?: string;
+}
+
+export interface ProfileChange {
+  id: number;
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  source: ChangeSource;
+  threadId: string | null;
+  /** ISO timestamp */
+  changedAt: string;
+}
+
+/** Preference fields and their `profile_preferences` columns */
+const PREFERENCE_COLUMNS = {
+  desiredRole: "desired_role",
+  experienceYears: "experience_years",
+  salaryMin: "salary_min",
+  salaryMax: "salary_max",
+  locationPreference: "location_preference",
+  remotePreference: "remote_preference",
+  dayRateMin: "day_rate_min",
+  dayRateMax: "day_rate_max",
+  daysPerWeek: "days_per_week",
+  engagementMonthsMin: "engagement_months_min",
+  engagementMonthsMax: "engagement_months_max",
+  maxConcurrentClients: "max_concurrent_clients",
+  availableFrom: "available_from",
+  contractorStatus: "contractor_status",
+  outsideIR35Only: "outside_ir35_only",
+} as const satisfies Record<keyof ProfilePreferences, string>;
+
+const PREFERENCE_FIELDS = Object.keys(PREFERENCE_COLUMNS) as (keyof ProfilePreferences)[];
+
+// Read as text, so they come back as ISO dates rather than local-midnight Dates
+const PREFERENCE_SELECT = PREFERENCE_FIELDS.map((field) =>
+  field === "availableFrom"
+    ? `p.${PREFERENCE_COLUMNS[field]}::text AS ${PREFERENCE_COLUMNS[field]}`
+    : `p.${PREFERENCE_COLUMNS[field]}`
+).join(", ");
+
+/**
+ * Reads a user's profile, or null if they have none.
+ */
+export async function getProfile(userId: string): Promise<StoredProfile | null> {
+  return withClient((client) => readProfile(client, userId));
+}
+
+/**
+ * Applies `update` to a user's profile (creating it if needed) and records
+ * each changed field in the change log. Returns the saved profile and the
+ * changes made, which is empty if nothing differed.
+ */
+export async function saveProfile(
+  userId: string,
+  update: ProfileUpdate,
+  provenance: Provenance
+): Promise<{ profile: StoredProfile; changes: ProfileChange[] }> {
+  return transaction(async (client) => {
+    await client.query(
+      `INSERT INTO user_profiles (user_id) VALUES ($1) ON CONFLICT (user_id) DO NOTHING`,
+      [userId]
+    );
+    // Serializes concurrent saves for the same user, so each diff is against the latest values
+    await client.query(`SELECT 1 FROM user_profiles WHERE user_id = $1 FOR UPDATE`, [userId]);
+
+    const before = (await readProfile(client, userId))!;
+    const changed: { field: string; oldValue: unknown; newValue: unknown }[] = [];
+    const record = (field: string, oldValue: unknown, newValue: unknown) => {
+      if (!sameValue(oldValue, newValue)) changed.push({ field, oldValue, newValue });
+    };
+
+    // Identity
+    for (const field of ["name", "email"] as const) {
+      if (update[field] === undefined) continue;
+      record(field, before[field] ?? null, update[field]);
+      await client.query(`UPDATE user_profiles SET ${field} = $2 WHERE user_id = $1`, [
+        userId,
+        update[field],
+      ]);
+    }
+
+    // Preferences
+    const preferenceUpdates = PREFERENCE_FIELDS.filter((field) => update[field] !== undefined);
+    for (const field of preferenceUpdates) {
+      record(field, before[field] ?? null, update[field]);
+    }
+    if (preferenceUpdates.length > 0) {
+      const columns = preferenceUpdates.map((field) => PREFERENCE_COLUMNS[field]);
+      await client.query(
+        `INSERT INTO profile_preferences (user_id, ${columns.join(", ")})
+         VALUES ($1, ${columns.map((_, i) => `$${i + 2}`).join(", ")})
+         ON CONFLICT (user_id) DO UPDATE SET
+           ${columns.map((column) => `${column} = EXCLUDED.${column}`).join(", ")}`,
+        [userId, ...preferenceUpdates.map((field) => update[field])]
+      );
+    }
+
+    // Skills: keep a skill's proficiency when it's saved again without one
+    if (update.skills !== undefined) {
+      const known = new Map(before.skills.map((s) => [s.name.toLowerCase(), s]));
+      const skills = dedupeSkills(update.skills ?? []).map((skill) => ({
+        name: skill.name,
+        proficiency: skill.proficiency ?? known.get(skill.name.toLowerCase())?.proficiency,
+      }));
+      record("skills", before.skills, skills);
+
+      await client.query(`DELETE FROM profile_skills WHERE user_id = $1`, [userId]);
+      for (const skill of skills) {
+        await client.query(
+          `INSERT INTO profile_skills (user_id, name, proficiency) VALUES ($1, $2, $3)`,
+          [userId, skill.name, skill.proficiency ?? null]
+        );
+      }
+    }
+
+    // Experience
+    if (update.experience !== undefined) {
+      const experience = update.experience ?? [];
+      record("experience", before.experience, experience);
+
+      await client.query(`DELETE FROM profile_experience WHERE user_id = $1`, [userId]);
+      for (const entry of experience) {
+        await client.query(
+          `INSERT INTO profile_experience
+             (user_id, title, company, start_date, end_date, description)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            userId,
+            entry.title,
+            entry.company ?? null,
+            entry.startDate ?? null,
+            entry.endDate ?? null,
+            entry.description ?? null,
+          ]
+        );
+      }
+    }
+
+    const changes: ProfileChange[] = [];
+    for (const { field, oldValue, newValue } of changed) {
+      const result = await client.query(
+        `INSERT INTO profile_changes (user_id, field, old_value, new_value, source, thread_id)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          userId,
+          field,
+          JSON.stringify(oldValue ?? null),
+          JSON.stringify(newValue ?? null),
+          provenance.source,
+          provenance.threadId ?? null,
+        ]
+      );
+      changes.push(rowToChange(result.rows[0]));
+    }
+
+    return { profile: (await readProfile(client, userId))!, changes };
+  });
+}
+
+/**
+ * A user's profile changes, newest first.
+ */
+export async function getProfileHistory(
+  userId: string,
+  options: { field?: string; limit?: number; before?: number } = {}
+): Promise<ProfileChange[]> {
+  const values: unknown[] = [userId];
+  const where = ["user_id = $1"];
+  if (options.field) {
+    values.push(options.field);
+    where.push(`field = $${values.length}`);
+  }
+  if (options.before !== undefined) {
+    values.push(options.before);
+    where.push(`id < $${values.length}`);
+  }
+  values.push(options.limit ?? 100);
+
+  const result = await query(
+    `SELECT * FROM profile_changes
+     WHERE ${where.join(" AND ")}
+     ORDER BY id DESC
+     LIMIT $${values.length}`,
+    values
+  );
+  return result.rows.map(rowToChange);
+}
+
+async function readProfile(client: PoolClient, userId: string): Promise<StoredProfile | null> {
+  const profile = await client.query(
+    `SELECT u.name, u.email, ${PREFERENCE_SELECT}
+     FROM user_profiles u
+     LEFT JOIN profile_preferences p ON p.user_id = u.user_id
+     WHERE u.user_id = $1`,
+    [userId]
+  );
+  const row = profile.rows[0];
+  if (!row) return null;
+
+  const skills = await client.query(
+    `SELECT name, proficiency FROM profile_skills WHERE user_id = $1 ORDER BY id`,
+    [userId]
+  );
+  const experience = await client.query(
+    `SELECT title, company, start_date::text, end_date::text, description FROM profile_experience
+     WHERE user_id = $1
+     ORDER BY start_date DESC NULLS LAST, id`,
+    [userId]
+  );
+
+  const stored: StoredProfile = {
+    userId,
+    name: row.name ?? undefined,
+    email: row.email ?? undefined,
+    skills: skills.rows.map((s) => ({
+      name: s.name,
+      ...(s.proficiency ? { proficiency: s.proficiency } : {}),
+    })),
+    experience: experience.rows.map((e) =>
+      withoutUndefined({
+        title: e.title,
+        company: e.company ?? undefined,
+        startDate: e.start_date ?? undefined,
+        endDate: e.end_date ?? undefined,
+        description: e.description ?? undefined,
+      })
+    ),
+  };
+
+  for (const field of PREFERENCE_FIELDS) {
+    const value = row[PREFERENCE_COLUMNS[field]];
+    if (value === null || value === undefined) continue;
+    (stored as unknown as Record<string, unknown>)[field] = value;
+  }
+  return stored;
+}
+
+function dedupeSkills(skills: ProfileSkill[]): ProfileSkill[] {
+  const seen = new Set<string>();
+  return skills.filter((skill) => {
+    const key = skill.name.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+function rowToChange(row: {
+  id: string | number;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  source: ChangeSource;
+  thread_id: string | null;
+  changed_at: Date | string;
+}): ProfileChange {
+  return {
+    id: Number(row.id),
+    field: row.field,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    source: row.source,
+    threadId: row.thread_id,
+    changedAt: new Date(row.changed_at).toISOString(),
+  };
+}
@@ -2,22 +2,95 @@
  * LangGraph Agent Server
  *
  * Exposes the careers coach agent for both CopilotKit and voice interfaces.
+ *
+ * When the graph stops for a confirmation, responses carry `isInterrupted` and
+ * an `interruptValue` (a `ConfirmationInterrupt`, see interrupts.ts). Resume by
+ * sending `command: { resume }` with the user's answer: free text or
+ * `{ decision: "confirm" | "deny" | "amend", corrections? }`.
+ *
+ * Threads are checkpointed in Postgres (see checkpointer.ts), so they survive
+ * restarts. Pass `userProfile.userId` to list a user's threads later with
+ * `GET /users/:userId/threads`; threads idle for `THREAD_TTL_DAYS` (default 30)
+ * are deleted.
+ *
+ * Creating and reading threads, running the agent (`/invoke`, `/stream`) and
+ * routes serving one user's data by id (their threads, profile history and
+ * applications) need `Authorization: Bearer $AGENT_API_KEY`, as the profile
+ * and application tools act on the `userProfile.userId` the caller sends. A
+ * thread stays with the first user it was saved for.
+ *
+ * A user's job applications (see applications.ts) are under
+ * `/users/:userId/applications`, with a `summary` for the dashboard.
  */
 
 import "dotenv/config";
 import { serve } from "@hono/node-server";
-import { Hono } from "hono";
+import { Hono, type MiddlewareHandler } from "hono";
 import { cors } from "hono/cors";
-import { graph, CareerAgentStateType } from "./graph.js";
-import { HumanMessage, AIMessage } from "@langchain/core/messages";
+import { bearerAuth } from "hono/bearer-auth";
+import { graph, checkpointer, type CareerAgentStateType } from "./graph.js";
+import { PostgresCheckpointSaver } from "./checkpointer.js";
+import { migrateUp } from "./migrate.js";
+import { getProfileHistory } from "./profiles.js";
+import { PostgresJobSource, geocodeFromJobs } from "./jobs.js";
+import {
+  APPLICATION_STATUSES,
+  countApplications,
+  createApplication,
+  getDueFollowUps,
+  listApplications,
+  updateApplication,
+  type ApplicationStatus,
+} from "./applications.js";
+import { z } from "zod";
+import { HumanMessage } from "@langchain/core/messages";
 import { Command } from "@langchain/langgraph";
 import { v4 as uuidv4 } from "uuid";
+import { parseInterrupt, type ConfirmationInterrupt } from "./interrupts.js";
 
 const app = new Hono();
+const jobSource = new PostgresJobSource({ geocode: geocodeFromJobs });
 app.use("/*", cors());
 
-// Store active threads
-const threads = new Map<string, { threadId: string; config: object }>();
+/**
+ * Routes that read or change one user's data take the user id from the URL or
+ * body (`userProfile.userId` loads that user's stored profile), so they only
+ * serve callers holding `AGENT_API_KEY` (as a bearer token): backends that
+ * have already checked who the user is. Without a key set, they're turned off.
+ */
+const AGENT_API_KEY = process.env.AGENT_API_KEY;
+const requireApiKey: MiddlewareHandler = AGENT_API_KEY
+  ? bearerAuth({ token: AGENT_API_KEY })
+  : async (c) => c.json({ error: "Set AGENT_API_KEY to enable this endpoint" }, 503);
+
+app.use("/threads", requireApiKey);
+app.use("/threads/:threadId", requireApiKey);
+app.use("/invoke", requireApiKey);
+app.use("/stream", requireApiKey);
+app.use("/profiles/*", requireApiKey);
+app.use("/users/:userId/threads", requireApiKey);
+app.use("/users/:userId/applications", requireApiKey);
+app.use("/users/:userId/applications/*", requireApiKey);
+
+/**
+ * Reads the pending interrupt from a thread's state tasks: a
+ * `ConfirmationInterrupt` for every tool in the graph, otherwise the raw value.
+ */
+function getPendingInterrupt(
+  tasks: ReadonlyArray<{ interrupts?: ReadonlyArray<{ value?: unknown }> }> | undefined
+): ConfirmationInterrupt | unknown {
+  const values = (tasks ?? []).flatMap((task) => task.interrupts ?? []).map(({ value }) => value);
+  if (values.length === 0) return null;
+  return values.map(parseInterrupt).find((value) => value !== null) ?? values[0];
+}
+
+/**
+ * Run config for a thread. `userId` records who the thread belongs to, and
+ * `channel` (`voice` or `chat`) where profile changes came from.
+ */
+function threadConfig(threadId: string, userId?: string, channel?: string) {
+  return { configurable: { thread_id: threadId, user_id: userId, channel } };
+}
 
 /**
  * Health check
@@ -31,13 +104,14 @@ app.post("/threads", async (c) => {
   const body = await c.req.json().catch(() => ({}));
   const threadId = body.threadId || uuidv4();
 
-  const config = {
-    configurable: {
-      thread_id: threadId,
-    },
-  };
-
-  threads.set(threadId, { threadId, config });
+  // Listed for the user before its first message
+  if (checkpointer instanceof PostgresCheckpointSaver) {
+    try {
+      await checkpointer.saveThread(threadId, body.userId);
+    } catch (error) {
+      return c.json({ error: String(error) }, 500);
+    }
+  }
 
   return c.json({ threadId, status: "created" });
 });
@@ -47,27 +121,20 @@ app.post("/threads", async (c) => {
  */
 app.post("/invoke", async (c) => {
   const body = await c.req.json();
-  const { threadId, message, userProfile, command } = body;
+  const { threadId, message, userProfile, command, channel } = body;
 
   if (!threadId) {
     return c.json({ error: "threadId required" }, 400);
   }
 
-  let threadData = threads.get(threadId);
-  if (!threadData) {
-    // Auto-create thread if it doesn't exist
-    threadData = {
-      threadId,
-      config: { configurable: { thread_id: threadId } },
-    };
-    threads.set(threadId, threadData);
-  }
+  // Threads are created on their first message
+  const config = threadConfig(threadId, userProfile?.userId, channel);
 
   try {
     let input: Partial<CareerAgentStateType> | Command;
 
     // If resuming from interrupt
-    if (command?.resume) {
+    if (command?.resume !== undefined) {
       input = new Command({ resume: command.resume });
     } else {
       // Normal message
@@ -77,19 +144,18 @@ app.post("/invoke", async (c) => {
       };
     }
 
-    const result = await graph.invoke(input, threadData.config);
+    const result = await graph.invoke(input, config);
 
     // Extract the last AI message
     const lastMessage = result.messages[result.messages.length - 1];
-    const isInterrupted = result.__interrupt__?.length > 0;
+    const interruptValue = getPendingInterrupt([{ interrupts: result.__interrupt__ }]);
 
     return c.json({
       threadId,
       response: lastMessage?.content || "",
-      isInterrupted,
-      interruptValue: isInterrupted ? result.__interrupt__[0]?.value : null,
+      isInterrupted: interruptValue !== null,
+      interruptValue,
       currentNode: result.currentNode,
-      userProfile: result.userProfile,
       toolCalls: lastMessage?.tool_calls || [],
     });
   } catch (error) {
@@ -103,27 +169,20 @@ app.post("/invoke", async (c) => {
  */
 app.post("/stream", async (c) => {
   const body = await c.req.json();
-  const { threadId, message, userProfile, command } = body;
+  const { threadId, message, userProfile, command, channel } = body;
 
   if (!threadId) {
     return c.json({ error: "threadId required" }, 400);
   }
 
-  let threadData = threads.get(threadId);
-  if (!threadData) {
-    threadData = {
-      threadId,
-      config: { configurable: { thread_id: threadId } },
-    };
-    threads.set(threadId, threadData);
-  }
+  const config = threadConfig(threadId, userProfile?.userId, channel);
 
   const stream = new ReadableStream({
     async start(controller) {
       try {
         let input: Partial<CareerAgentStateType> | Command;
 
-        if (command?.resume) {
+        if (command?.resume !== undefined) {
           input = new Command({ resume: command.resume });
         } else {
           input = {
@@ -133,7 +192,7 @@ app.post("/stream", async (c) => {
         }
 
         const eventStream = await graph.streamEvents(input, {
-          ...threadData!.config,
+          ...config,
           version: "v2",
         });
 
@@ -167,17 +226,16 @@ app.post("/stream", async (c) => {
         }
 
         // Get final state
-        const state = await graph.getState(threadData!.config);
-        const isInterrupted = state.tasks?.some((t: { interrupts: string | any[] }) => t.interrupts?.length > 0);
+        const state = await graph.getState(config);
+        const interruptValue = getPendingInterrupt(state.tasks);
 
         controller.enqueue(
           new TextEncoder().encode(
             `data: ${JSON.stringify({
               type: "done",
-              isInterrupted,
-              interruptValue: isInterrupted ? state.tasks[0]?.interrupts[0]?.value : null,
+              isInterrupted: interruptValue !== null,
+              interruptValue,
               currentNode: state.values?.currentNode,
-              userProfile: state.values?.userProfile,
             })}\n\n`
           )
         );
@@ -209,24 +267,204 @@ app.post("/stream", async (c) => {
  */
 app.get("/threads/:threadId", async (c) => {
   const threadId = c.req.param("threadId");
-  const threadData = threads.get(threadId);
-
-  if (!threadData) {
-    return c.json({ error: "Thread not found" }, 404);
-  }
+  const config = threadConfig(threadId);
 
   try {
-    const state = await graph.getState(threadData.config);
+    if (!(await checkpointer.getTuple(config))) {
+      return c.json({ error: "Thread not found" }, 404);
+    }
+
+    const state = await graph.getState(config);
+    const interruptValue = getPendingInterrupt(state.tasks);
     return c.json({
       threadId,
       ...state.values,
-      isInterrupted: state.tasks?.some((t: { interrupts: string | any[] }) => t.interrupts?.length > 0),
+      isInterrupted: interruptValue !== null,
+      interruptValue,
+    });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+/**
+ * List a user's threads, most recently active first
+ */
+app.get("/users/:userId/threads", async (c) => {
+  if (!(checkpointer instanceof PostgresCheckpointSaver)) {
+    return c.json({ error: "Thread listing needs the Postgres checkpointer" }, 501);
+  }
+
+  try {
+    const threads = await checkpointer.listThreads(c.req.param("userId"));
+    return c.json({ threads });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+/**
+ * A user's profile changes, newest first. Query params: `field` to filter,
+ * `limit` (default 100) and `before` (a change id) to page back.
+ */
+app.get("/profiles/:userId/history", async (c) => {
+  const { field, limit, before } = c.req.query();
+  const limitValue = limit === undefined ? 100 : parseInt(limit);
+  const beforeValue = before === undefined ? undefined : parseInt(before);
+  if (!(limitValue > 0) || (beforeValue !== undefined && Number.isNaN(beforeValue))) {
+    return c.json({ error: "limit and before must be numbers" }, 400);
+  }
+
+  try {
+    const changes = await getProfileHistory(c.req.param("userId"), {
+      field,
+      limit: Math.min(limitValue, 500),
+      before: beforeValue,
+    });
+    return c.json({ changes });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+/**
+ * A user's applications, most recently updated first. Query params: `status`
+ * to filter and `limit` (default 50, max 200).
+ */
+app.get("/users/:userId/applications", async (c) => {
+  const { status, limit } = c.req.query();
+  const limitValue = limit === undefined ? 50 : parseInt(limit);
+  if (!(limitValue > 0)) {
+    return c.json({ error: "limit must be a positive number" }, 400);
+  }
+  if (status !== undefined && !APPLICATION_STATUSES.includes(status as ApplicationStatus)) {
+    return c.json({ error: `status must be one of ${APPLICATION_STATUSES.join(", ")}` }, 400);
+  }
+
+  try {
+    const applications = await listApplications(c.req.param("userId"), {
+      status: status as ApplicationStatus | undefined,
+      limit: Math.min(limitValue, 200),
+    });
+    return c.json({ applications });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+/**
+ * Counts by status, follow-ups due and the latest few applications, for the
+ * dashboard
+ */
+app.get("/users/:userId/applications/summary", async (c) => {
+  const userId = c.req.param("userId");
+
+  try {
+    const [counts, followUpsDue, recent] = await Promise.all([
+      countApplications(userId),
+      getDueFollowUps(userId),
+      listApplications(userId, { limit: 5 }),
+    ]);
+    return c.json({ counts, followUpsDue, recent });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+const newApplicationSchema = z.object({
+  jobId: z.string().optional(),
+  // For roles found outside the jobs table
+  jobTitle: z.string().min(1).optional(),
+  company: z.string().min(1).optional(),
+  status: z.enum(["draft", "submitted"]).optional(),
+  coverLetterPoints: z.array(z.string()).optional(),
+  notes: z.string().optional(),
+});
+
+/**
+ * Record an application, as a draft unless `status` is `submitted`. Send a
+ * `jobId` from the jobs table, or a `jobTitle` and `company`. Answers 200
+ * with the existing application if there's already one for the job.
+ */
+app.post("/users/:userId/applications", async (c) => {
+  const parsed = newApplicationSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues.map((issue) => issue.message).join("; ") }, 400);
+  }
+  let { jobTitle, company } = parsed.data;
+
+  try {
+    if (parsed.data.jobId !== undefined) {
+      const job = await jobSource.get(parsed.data.jobId);
+      if (!job) return c.json({ error: "Job not found" }, 404);
+      ({ title: jobTitle, company } = job);
+    }
+    if (!jobTitle || !company) {
+      return c.json({ error: "Send a jobId, or a jobTitle and company" }, 400);
+    }
+
+    const { application, created } = await createApplication(c.req.param("userId"), {
+      ...parsed.data,
+      jobTitle,
+      company,
     });
+    return c.json({ application }, created ? 201 : 200);
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+const applicationUpdateSchema = z.object({
+  status: z.enum(APPLICATION_STATUSES).optional(),
+  followUpOn: z.string().date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+/**
+ * Change an application's status, follow-up date (`null` cancels it) or
+ * notes. Statuses only move forward through the pipeline: 409 otherwise.
+ */
+app.patch("/users/:userId/applications/:applicationId", async (c) => {
+  const parsed = applicationUpdateSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues.map((issue) => issue.message).join("; ") }, 400);
+  }
+
+  try {
+    const result = await updateApplication(
+      c.req.param("userId"),
+      c.req.param("applicationId"),
+      parsed.data
+    );
+    if (!result.updated) {
+      return c.json({ error: result.message }, result.reason === "not_found" ? 404 : 409);
+    }
+    return c.json({ application: result.application });
   } catch (error) {
     return c.json({ error: String(error) }, 500);
   }
 });
 
+// Bring the schema up to date before taking requests
+await migrateUp();
+
+// Delete idle threads
+const THREAD_TTL_MS = parseFloat(process.env.THREAD_TTL_DAYS || "30") * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+if (checkpointer instanceof PostgresCheckpointSaver) {
+  const pruneThreads = () =>
+    checkpointer
+      .prune(THREAD_TTL_MS)
+      .then((deleted) => {
+        if (deleted > 0) console.log(`Pruned ${deleted} idle threads`);
+      })
+      .catch((error) => console.error("Failed to prune threads:", error));
+
+  void pruneThreads();
+  setInterval(pruneThreads, PRUNE_INTERVAL_MS).unref();
+}
+
 // Start server
 const port = parseInt(process.env.AGENT_PORT || "8123");
 console.log(`🎯 Careers Coach Agent running on http://localhost:${port}`);
@@ -3,11 +3,33 @@
  * Extends LangChain's agent concept with voice-specific features.
  */
 
-import { HumanMessage } from '@langchain/core/messages'
-import { Command } from '@langchain/langgraph'
+import {
+  AIMessage,
+  coerceMessageLikeToMessage,
+  HumanMessage,
+  type BaseMessageLike,
+} from '@langchain/core/messages'
+import type { RunnableConfig } from '@langchain/core/runnables'
+import { Command, isGraphInterrupt } from '@langchain/langgraph'
+import { RemoteGraph } from '@langchain/langgraph/remote'
 import { createAgent, type CreateAgentParams, type ReactAgent } from 'langchain'
 import type { AgentMiddleware } from 'langchain'
 
+import { AudioFormatTransform } from './audio-conversion.js'
+import { audioFormatsEqual, describeAudioFormat, type AudioFormat } from './audio-format.js'
+import {
+  BargeInPolicy,
+  DEFAULT_TRUNCATION_MARKER,
+  getSpokenPrefix,
+  type BargeInOptions,
+} from './barge-in.js'
+import {
+  VoiceAgentEventEmitter,
+  type VoiceAgentEventBase,
+  type VoiceAgentEventListener,
+  type VoiceAgentEventMap,
+  type VoiceAgentEventType,
+} from './events.js'
 import {
   combineMiddleware,
   pipeThroughTransforms,
@@ -15,12 +37,13 @@ import {
   type VoiceHooks,
 } from './middleware.js'
 import { type BaseSpeechToTextModel, type BaseTextToSpeechModel } from './models.js'
+import type { TranscriptEvent } from './transcripts.js'
+import { isSpeechStartSource, type SpeechStartSource } from './vad.js'
 
 /**
- * Parameters for creating a voice agent.
- * Extends LangChain's CreateAgentParams with voice-specific options.
+ * Voice options shared by local and remote-graph voice agents.
  */
-export interface CreateVoiceAgentParams extends Omit<CreateAgentParams, 'middleware'> {
+export interface VoiceAgentOptions {
   /** Speech-to-Text model for transcribing user input */
   stt: BaseSpeechToTextModel
   /** Text-to-Speech model for generating audio output */
@@ -34,20 +57,120 @@ export interface CreateVoiceAgentParams extends Omit<CreateAgentParams, 'middlew
   onInterrupt?: (value: unknown) => void
   /** Callback when the agent calls hang_up tool */
   onHangUp?: (reason: string) => void
+  /**
+   * Barge-in handling. When the user speaks over the agent, the in-flight agent run
+   * is cancelled, TTS is aborted, queued text is dropped and only the part of the
+   * reply that was spoken is kept in the conversation history.
+   * @default { mode: "immediate" }
+   */
+  bargeIn?: BargeInOptions
+  /**
+   * Format of the audio passed to `process()`. When it differs from the STT
+   * model's `audioFormat`, the input is converted before the beforeSTT middleware.
+   * @default the STT model's format (no conversion)
+   */
+  inputFormat?: AudioFormat
+  /**
+   * Format of the audio returned by `process()`. When it differs from the TTS
+   * model's `audioFormat`, the output is converted after the afterTTS middleware.
+   * @default the TTS model's format (no conversion)
+   */
+  outputFormat?: AudioFormat
+  /**
+   * Conversation thread id. Remote deployments expect a UUID.
+   * @default a random UUID
+   */
+  threadId?: string
+  /**
+   * Names of the tools that end the call (see `onHangUp`).
+   * @default ["hang_up"]
+   */
+  hangUpTools?: string[]
+}
+
+/**
+ * Parameters for creating a voice agent.
+ * Extends LangChain's CreateAgentParams with voice-specific options.
+ */
+export interface CreateVoiceAgentParams
+  extends Omit<CreateAgentParams, 'middleware'>, VoiceAgentOptions {}
+
+/**
+ * A graph the voice agent can run instead of building a local agent: a compiled
+ * `StateGraph` (with a checkpointer), a `RemoteGraph`, or anything with the same
+ * streaming and state API.
+ */
+export interface VoiceAgentGraph {
+  stream(input: unknown, options?: Record<string, unknown>): Promise<AsyncIterable<unknown>>
+  getState(config: RunnableConfig): Promise<{
+    values?: unknown
+    tasks?: ReadonlyArray<{ interrupts?: ReadonlyArray<{ value?: unknown }> }>
+  }>
+  updateState(
+    config: RunnableConfig,
+    values: Record<string, unknown>,
+    asNode?: string
+  ): Promise<unknown>
+}
+
+/**
+ * A graph on a LangGraph deployment (LangGraph Platform or `langgraph dev`).
+ */
+export interface RemoteGraphOptions {
+  /** Deployment URL, e.g. `http://localhost:8123` */
+  url: string
+  /** Graph (assistant) id, as registered in `langgraph.json` */
+  graphId: string
+  apiKey?: string
+  headers?: Record<string, string>
+}
+
+/**
+ * Parameters for a voice agent that talks to an existing graph. The graph owns
+ * the model, tools, prompt and history; LangChain agent middleware can't be used.
+ */
+export interface CreateRemoteVoiceAgentParams extends VoiceAgentOptions {
+  graph: RemoteGraphOptions | VoiceAgentGraph
 }
 
 /**
  * Voice Agent interface - represents a voice-enabled agent.
  */
 export interface VoiceAgent {
-  /** The underlying LangGraph agent */
-  readonly agent: ReactAgent
+  /** The underlying LangGraph agent (`null` when running a remote graph) */
+  readonly agent: ReactAgent | null
+  /** The graph each turn runs on: the agent's graph, or the remote graph */
+  readonly graph: VoiceAgentGraph
   /** The TTS model (useful for interrupt/barge-in control) */
   readonly tts: BaseTextToSpeechModel
   /** The STT model */
   readonly stt: BaseSpeechToTextModel
+  /** Format of the audio `process()` expects (`inputFormat`, or the STT model's format) */
+  readonly inputFormat: AudioFormat
+  /** Format of the audio `process()` returns (`outputFormat`, or the TTS model's format) */
+  readonly outputFormat: AudioFormat
+  /** Turn-scoped event emitter (transcripts, tokens, tools, audio, barge-in, ...) */
+  readonly events: VoiceAgentEventEmitter
+  /** Id of the current turn (increments each time the user starts a new turn) */
+  readonly turnId: number
+  /** Subscribe to a voice agent event. Returns an unsubscribe function. */
+  on<K extends VoiceAgentEventType>(type: K, listener: VoiceAgentEventListener<K>): () => void
+  /** Unsubscribe from a voice agent event. */
+  off<K extends VoiceAgentEventType>(type: K, listener: VoiceAgentEventListener<K>): void
   /** Start processing audio from a readable stream */
   process(audioInput: ReadableStream<Buffer>): ReadableStream<Buffer>
+  /**
+   * Cut the current response short as if the user had barged in (e.g. a "stop"
+   * button). Does nothing while the agent isn't responding.
+   */
+  interrupt(): void
+  /**
+   * Count the agent as speaking until its audio has been heard rather than
+   * just synthesized, so barge-in still cuts off audio the client has buffered.
+   * `waitForPlayback` resolves once everything output so far has played (see
+   * `runVoiceSession()`, which calls this).
+   */
+  trackPlayback(waitForPlayback: () => Promise<void>): void
   /** Stop processing and clean up */
   stop(): void
 }
@@ -59,6 +182,32 @@ interface VoiceAgentState {
   threadId: string
   pendingInterrupt?: unknown
   stopped: boolean
+  /** Current turn id (see `VoiceAgentEventBase.turnId`) */
+  turnId: number
+  /** The STT's most recent final transcript, until it reaches the agent */
+  lastTranscript: TranscriptEvent | null
+  /** True between the start of a user turn and its final transcript */
+  awaitingTranscript: boolean
+  /** True while the agent is streaming a response */
+  agentBusy: boolean
+  /** True while the TTS is producing audio, or until it has played when playback is tracked */
+  speaking: boolean
+  /** Audio chunks output so far, to tell whether more audio followed a playback wait */
+  audioChunks: number
+  /** Resolves once the audio output so far has played (see `trackPlayback()`) */
+  waitForPlayback: (() => Promise<void>) | null
+  /** Whether `tts_start` has been emitted for the current turn */
+  ttsStarted: boolean
+  /** Cancels the in-flight agent run */
+  responseAbort: AbortController | null
+  /** Text of the assistant message currently being generated */
+  responseText: string
+  /** Text handed to the TTS for the current response (used if the TTS doesn't track segments) */
+  queuedText: string
+  /** True after a barge-in, until the next response starts */
+  droppingText: boolean
+  /** Spoken text to persist once the cancelled agent run has settled */
+  pendingSpokenText: string | null
 }
 
 /**
@@ -106,14 +255,33 @@ interface VoiceAgentState {
  *
  * const audioOutput = voiceAgent.process(audioInput);
  * ```
+ *
+ * Pass `graph` instead of model and tools to talk to an existing graph, such as
+ * a LangGraph deployment. Interrupts are resumed on the remote thread with
+ * `Command({ resume })`:
+ *
+ * ```ts
+ * const voiceAgent = createVoiceAgent({
+ *   graph: { url: "http://localhost:8123", graphId: "careers_coach" },
+ *   stt,
+ *   tts,
+ * });
+ * ```
  */
-export function createVoiceAgent(params: CreateVoiceAgentParams): VoiceAgent {
+export function createVoiceAgent(
+  params: CreateVoiceAgentParams | CreateRemoteVoiceAgentParams
+): VoiceAgent {
   const {
     stt,
     tts,
     middleware = [],
     onInterrupt,
     onHangUp,
+    bargeIn = {},
+    inputFormat,
+    outputFormat,
+    threadId = crypto.randomUUID(),
+    hangUpTools = ['hang_up'],
     // Extract CreateAgentParams
     ...agentParams
   } = params
@@ -121,28 +289,265 @@ export function createVoiceAgent(params: CreateVoiceAgentParams): VoiceAgent {
   // Combine all middleware - separates voice hooks from agent middleware
   const combinedHooks = middleware.length > 0 ? combineMiddleware(...middleware) : null
 
-  // Create the LangChain agent using createAgent() with the agent middleware
-  const agent = createAgent({
-    ...agentParams,
-    middleware: combinedHooks?.agentMiddleware,
-  })
+  let agent: ReactAgent | null = null
+  let graph: VoiceAgentGraph
+
+  if ('graph' in params) {
+    if (combinedHooks && combinedHooks.agentMiddleware.length > 0) {
+      throw new Error('Agent middleware needs a local agent and cannot run with a remote graph')
+    }
+    graph = isRemoteGraphOptions(params.graph) ? new RemoteGraph(params.graph) : params.graph
+  } else {
+    // Create the LangChain agent using createAgent() with the agent middleware
+    const localAgent = createAgent({
+      ...(agentParams as Omit<CreateAgentParams, 'middleware'>),
+      middleware: combinedHooks?.agentMiddleware,
+    })
+    agent = localAgent
+    graph = {
+      stream: (input, options) => localAgent.stream(input as never, options),
+      getState: (config) => localAgent.getState(config),
+      updateState: (config, values, asNode) => localAgent.graph.updateState(config, values, asNode),
+    }
+  }
 
   const state: VoiceAgentState = {
-    threadId: crypto.randomUUID(),
+    threadId,
     stopped: false,
+    turnId: 0,
+    lastTranscript: null,
+    awaitingTranscript: false,
+    agentBusy: false,
+    speaking: false,
+    audioChunks: 0,
+    waitForPlayback: null,
+    ttsStarted: false,
+    responseAbort: null,
+    responseText: '',
+    queuedText: '',
+    droppingText: false,
+    pendingSpokenText: null,
+  }
+
+  const events = new VoiceAgentEventEmitter()
+
+  /**
+   * Emits an event stamped with the current turn id and time.
+   */
+  function emit<K extends VoiceAgentEventType>(
+    type: K,
+    payload: Omit<VoiceAgentEventMap[K], keyof VoiceAgentEventBase>
+  ): void {
+    events.emit(type, {
+      turnId: state.turnId,
+      timestamp: Date.now(),
+      ...payload,
+    } as VoiceAgentEventMap[K])
+  }
+
+  /**
+   * Opens a new turn on the first sign of user speech.
+   * Subsequent signals for the same utterance reuse the open turn.
+   */
+  function beginUserTurn(): void {
+    if (state.awaitingTranscript) return
+    state.turnId++
+    state.awaitingTranscript = true
+    state.ttsStarted = false
+    emit('turn_start', {})
   }
 
   // Extract voice hooks (empty object if no middleware)
   const voiceHooks: VoiceHooks = combinedHooks ?? {}
 
+  // Speech start comes from the STT model and any beforeSTT transform that detects it (VAD)
+  const speechStartSources: SpeechStartSource[] = [
+    stt,
+    ...(voiceHooks.beforeSTT ?? []).filter(isSpeechStartSource),
+  ]
+
   // Wire middleware event hooks to STT/TTS models
   if (voiceHooks.onSpeechStart) {
-    stt.addSpeechStartListener(voiceHooks.onSpeechStart)
+    for (const source of speechStartSources) {
+      source.addSpeechStartListener(voiceHooks.onSpeechStart)
+    }
+  }
+  if (voiceHooks.onTranscript) {
+    stt.addTranscriptListener(voiceHooks.onTranscript)
   }
   if (voiceHooks.onAudioComplete) {
     tts.addAudioCompleteListener(voiceHooks.onAudioComplete)
   }
 
+  const isResponding = () => state.agentBusy || state.speaking
+
+  /**
+   * Cuts the current response short: cancels the agent run, aborts TTS,
+   * drops queued text and keeps only the spoken part in the history.
+   */
+  function handleBargeIn(): void {
+    if (state.droppingText) return
+
+    console.log('[VoiceAgent] Barge-in: cancelling current response')
+    emit('barge_in', {})
+
+    // Read before interrupting - prefer the TTS's record of audio actually emitted
+    const spokenText =
+      tts.speechSegments.segments.length > 0 ? tts.getSpokenText() : state.queuedText
+
+    state.droppingText = true
+    state.responseAbort?.abort()
+    tts.interrupt()
+
+    if (state.agentBusy) {
+      // The agent transform persists this once the cancelled run has settled
+      state.pendingSpokenText = spokenText
+    } else {
+      void persistSpokenResponse(spokenText)
+    }
+  }
+
+  const bargeInPolicy = new BargeInPolicy(bargeIn, handleBargeIn)
+  const { truncationMarker = DEFAULT_TRUNCATION_MARKER } = bargeIn
+
+  /**
+   * Rewrites the checkpointed history so it only contains what the user heard.
+   * The last assistant message is replaced by its spoken prefix plus the truncation
+   * marker, and flagged with `response_metadata.interrupted`.
+   */
+  async function persistSpokenResponse(spokenText: string): Promise<void> {
+    const config = { configurable: { thread_id: state.threadId } }
+
+    try {
+      const snapshot = await graph.getState(config)
+      const messages = (snapshot.values as { messages?: BaseMessageLike[] } | undefined)?.messages
+      // Remote graphs return plain message objects
+      const lastMessage = messages?.length
+        ? coerceMessageLikeToMessage(messages[messages.length - 1])
+        : undefined
+
+      if (AIMessage.isInstance(lastMessage)) {
+        // A tool call can't be half-heard - keep the message so the tool result stays valid
+        if (lastMessage.tool_calls && lastMessage.tool_calls.length > 0) return
+        if (typeof lastMessage.content !== 'string') return
+
+        if (lastMessage.response_metadata?.interrupted) return
+
+        const spoken = getSpokenPrefix(lastMessage.content, spokenText)
+        if (spoken === lastMessage.content) return
+
+        console.log(`[VoiceAgent] Truncating assistant message to spoken text: "${spoken}"`)
+        await graph.updateState(config, {
+          messages: [
+            new AIMessage({
+              id: lastMessage.id,
+              content: markTruncated(spoken, truncationMarker),
+              response_metadata: { ...lastMessage.response_metadata, interrupted: true },
+            }),
+          ],
+        })
+        return
+      }
+
+      // The run was cancelled before the reply was checkpointed - record what was said
+      const spoken = getSpokenPrefix(state.responseText, spokenText)
+      if (spoken.trim().length > 0) {
+        console.log(`[VoiceAgent] Recording spoken part of cancelled reply: "${spoken}"`)
+        await graph.updateState(config, {
+          messages: [
+            new AIMessage({
+              content: markTruncated(spoken, truncationMarker),
+              response_metadata: { interrupted: true },
+            }),
+          ],
+        })
+      }
+    } catch (error) {
+      console.error('[VoiceAgent] Failed to record spoken response:', error)
+      emit('error', { error })
+    }
+  }
+
+  // Wire model listeners to the event emitter and barge-in policy
+  for (const source of speechStartSources) {
+    source.addSpeechStartListener(() => {
+      bargeInPolicy.handleSpeechStart(isResponding())
+      beginUserTurn()
+    })
+  }
+  stt.addTranscriptListener((transcript) => {
+    if (transcript.isFinal) {
+      // Emitted as `transcript_final` once it has passed the afterSTT middleware
+      state.lastTranscript = transcript
+      return
+    }
+
+    const { text, confidence, words, language } = transcript
+    bargeInPolicy.handleTranscript(text, false, isResponding())
+    beginUserTurn()
+    emit('transcript_partial', { text, confidence, words, language })
+  })
+  tts.addAlignmentListener((alignment) => {
+    emit('tts_alignment', { alignment })
+  })
+  tts.addAudioCompleteListener(() => {
+    emit('tts_complete', {})
+    if (!state.waitForPlayback) {
+      state.speaking = false
+      return
+    }
+
+    // Still speaking while the client plays what it has buffered
+    const audioChunks = state.audioChunks
+    void state.waitForPlayback().then(() => {
+      if (state.audioChunks === audioChunks) state.speaking = false
+    })
+  })
+
+  /**
+   * Creates a passthrough transform that observes TTS output for `tts_start`.
+   */
+  function createAudioMonitorTransform(): TransformStream<Buffer, Buffer> {
+    return new TransformStream<Buffer, Buffer>({
+      transform(chunk, controller) {
+        state.speaking = true
+        state.audioChunks++
+        if (!state.ttsStarted) {
+          state.ttsStarted = true
+          emit('tts_start', {})
+        }
+        controller.enqueue(chunk)
+      },
+    })
+  }
+
+  /**
+   * Creates a passthrough transform that shows final transcripts to the barge-in
+   * policy as soon as they arrive, even while the agent is still busy.
+   */
+  function createTranscriptTapTransform(): TransformStream<string, string> {
+    return new TransformStream<string, string>({
+      transform(text, controller) {
+        bargeInPolicy.handleTranscript(text, true, isResponding())
+        controller.enqueue(text)
+      },
+    })
+  }
+
+  /**
+   * Creates the gate in front of the TTS. It records what is handed to the TTS
+   * and drops text that was queued for a response the user barged in on.
+   */
+  function createSpeechGateTransform(): TransformStream<string, string> {
+    return new TransformStream<string, string>({
+      transform(text, controller) {
+        if (state.droppingText) return
+        state.queuedText += text
+        controller.enqueue(text)
+      },
+    })
+  }
+
   /**
    * Creates the agent transform that processes text through the LangGraph agent.
    */
@@ -151,6 +556,12 @@ export function createVoiceAgent(params: CreateVoiceAgentParams): VoiceAgent {
       async transform(text, controller) {
         if (state.stopped) return
 
+        beginUserTurn()
+        state.awaitingTranscript = false
+        const { confidence, words, language } = state.lastTranscript ?? {}
+        state.lastTranscript = null
+        emit('transcript_final', { text, confidence, words, language })
+
         let input: { messages: HumanMessage[] } | Command
 
         // If there's a pending interrupt, resume with Command
@@ -162,67 +573,137 @@ export function createVoiceAgent(params: CreateVoiceAgentParams): VoiceAgent {
           input = { messages: [new HumanMessage(text)] }
         }
 
-        const graphStream = await agent.stream(input, {
-          configurable: { thread_id: state.threadId },
-          streamMode: 'messages',
-        })
+        // Start a fresh response
+        const responseAbort = new AbortController()
+        state.responseAbort = responseAbort
+        state.responseText = ''
+        state.queuedText = ''
+        state.droppingText = false
+        state.pendingSpokenText = null
+        tts.speechSegments.reset()
+        bargeInPolicy.reset()
+
+        state.agentBusy = true
+        try {
+          const graphStream = await graph.stream(input, {
+            configurable: { thread_id: state.threadId },
+            streamMode: ['messages', 'updates'],
+            signal: responseAbort.signal,
+          })
+
+          // Track hang_up request to defer until all text is enqueued
+          let pendingHangUpReason: string | null = null
+
+          try {
+            for await (const [mode, payload] of graphStream as AsyncIterable<[string, unknown]>) {
+              if (state.stopped || responseAbort.signal.aborted) break
+
+              // Node updates carry complete messages - used to report finished tool calls
+              if (mode === 'updates') {
+                for (const toolCall of extractToolCalls(payload)) {
+                  emit('tool_call', toolCall)
+                }
+                continue
+              }
 
-        // Track hang_up request to defer until all text is enqueued
-        let pendingHangUpReason: string | null = null
-
-        for await (const [chunk] of graphStream) {
-          if (state.stopped) break
-
-          // Check if it's an AIMessageChunk - extract text content
-          // Skip ToolMessages (they have tool_call_id) - only AIMessages should go to TTS
-          if (
-            chunk &&
-            typeof chunk === 'object' &&
-            'content' in chunk &&
-            !('tool_call_id' in chunk)
-          ) {
-            const content = (chunk as { content: unknown }).content
-            if (typeof content === 'string' && content.length > 0) {
-              controller.enqueue(content)
-            }
-          }
+              const [chunk] = payload as [unknown, unknown]
+
+              // Check if it's an AIMessageChunk - extract text content
+              // Skip ToolMessages (they have tool_call_id) - only AIMessages should go to TTS
+              if (
+                chunk &&
+                typeof chunk === 'object' &&
+                'content' in chunk &&
+                !('tool_call_id' in chunk)
+              ) {
+                const content = (chunk as { content: unknown }).content
+                if (typeof content === 'string' && content.length > 0) {
+                  state.responseText += content
+                  emit('agent_token', { text: content })
+                  controller.enqueue(content)
+                }
+              }
+
+              if (chunk && typeof chunk === 'object' && 'tool_call_id' in chunk) {
+                const toolMessage = chunk as {
+                  tool_call_id: string
+                  name?: string
+                  content: unknown
+                }
+                // The next assistant message starts after the tool result
+                state.responseText = ''
+                emit('tool_result', {
+                  toolCallId: toolMessage.tool_call_id,
+                  name: toolMessage.name,
+                  content: toolMessage.content,
+                })
+              }
 
-          // Check for hang_up tool - defer calling onHangUp until stream completes
-          if (chunk && typeof chunk === 'object' && 'name' in chunk) {
-            const toolChunk = chunk as { name: string; content: unknown }
-            if (toolChunk.name === 'hang_up') {
-              console.log('[VoiceAgent] Hang up tool called:', toolChunk.content)
-              pendingHangUpReason = toolChunk.content as string
+              // Check for hang_up tool - defer calling onHangUp until stream completes
+              if (chunk && typeof chunk === 'object' && 'name' in chunk) {
+                const toolChunk = chunk as { name: string; content: unknown }
+                if (hangUpTools.includes(toolChunk.name)) {
+                  console.log('[VoiceAgent] Hang up tool called:', toolChunk.content)
+                  pendingHangUpReason = toolChunk.content as string
+                }
+              }
             }
+          } catch (error) {
+            // Remote graphs end the stream with an error when the graph is interrupted;
+            // the state check below picks the interrupt up
+            if (!isGraphInterrupt(error)) throw error
           }
-        }
 
-        // Call onHangUp after all text is enqueued to TTS
-        // This ensures the actual agent response is queued before signaling hang up
-        if (pendingHangUpReason !== null && onHangUp) {
-          console.log('[VoiceAgent] All text enqueued, signaling hang up:', pendingHangUpReason)
-          onHangUp(pendingHangUpReason)
-        }
+          // The user barged in - nothing else from this run should be acted on
+          if (responseAbort.signal.aborted) return
+
+          // Call onHangUp after all text is enqueued to TTS
+          // This ensures the actual agent response is queued before signaling hang up
+          if (pendingHangUpReason !== null) {
+            console.log('[VoiceAgent] All text enqueued, signaling hang up:', pendingHangUpReason)
+            emit('hang_up', { reason: pendingHangUpReason })
+            onHangUp?.(pendingHangUpReason)
+          }
 
-        // Check for interrupts
-        const graphState = (await agent.getState({
-          configurable: { thread_id: state.threadId },
-        })) as { tasks?: Array<{ interrupts?: Array<{ value: unknown }> }> }
-
-        if (graphState.tasks) {
-          for (const task of graphState.tasks) {
-            if (task.interrupts && task.interrupts.length > 0) {
-              const interruptValue = task.interrupts[0].value
-              console.log('[VoiceAgent] Interrupt detected:', interruptValue)
-              state.pendingInterrupt = interruptValue
-              onInterrupt?.(interruptValue)
-
-              // Emit interrupt message
-              if (typeof interruptValue === 'string') {
-                controller.enqueue(interruptValue)
+          // Check for interrupts
+          const graphState = await graph.getState({
+            configurable: { thread_id: state.threadId },
+          })
+
+          if (graphState.tasks) {
+            for (const task of graphState.tasks) {
+              if (task.interrupts && task.interrupts.length > 0) {
+                const interruptValue = task.interrupts[0].value
+                console.log('[VoiceAgent] Interrupt detected:', interruptValue)
+                state.pendingInterrupt = interruptValue
+                emit('interrupt', { value: interruptValue })
+                onInterrupt?.(interruptValue)
+
+                // Speak the interrupt's question
+                const prompt = getInterruptPrompt(interruptValue)
+                if (prompt) {
+                  controller.enqueue(prompt)
+                }
               }
             }
           }
+        } catch (error) {
+          if (responseAbort.signal.aborted) {
+            console.log('[VoiceAgent] Agent run cancelled by barge-in')
+          } else {
+            // Keep the pipeline alive - the next user turn gets a fresh attempt
+            console.error('[VoiceAgent] Error processing turn:', error)
+            emit('error', { error })
+          }
+        } finally {
+          state.agentBusy = false
+          state.responseAbort = null
+
+          if (state.pendingSpokenText !== null) {
+            const spokenText = state.pendingSpokenText
+            state.pendingSpokenText = null
+            await persistSpokenResponse(spokenText)
+          }
         }
       },
     })
@@ -230,14 +711,38 @@ export function createVoiceAgent(params: CreateVoiceAgentParams): VoiceAgent {
 
   return {
     agent,
+    graph,
     tts,
     stt,
+    events,
+    inputFormat: inputFormat ?? stt.audioFormat,
+    outputFormat: outputFormat ?? tts.audioFormat,
+
+    get turnId() {
+      return state.turnId
+    },
+
+    on(type, listener) {
+      return events.on(type, listener)
+    },
+
+    off(type, listener) {
+      events.off(type, listener)
+    },
 
     process(audioInput: ReadableStream<Buffer>): ReadableStream<Buffer> {
       // Build the pipeline with middleware hooks
 
-      // Step 1: Apply beforeSTT transforms
+      // Step 0: Convert the transport's audio to the STT model's format
       let pipeline: ReadableStream<Buffer> = audioInput
+      if (inputFormat && !audioFormatsEqual(inputFormat, stt.audioFormat)) {
+        console.log(
+          `[VoiceAgent] Converting input audio from ${describeAudioFormat(inputFormat)} to ${describeAudioFormat(stt.audioFormat)}`
+        )
+        pipeline = pipeline.pipeThrough(new AudioFormatTransform(inputFormat, stt.audioFormat))
+      }
+
+      // Step 1: Apply beforeSTT transforms
       if (voiceHooks.beforeSTT && voiceHooks.beforeSTT.length > 0) {
         pipeline = pipeThroughTransforms(pipeline, voiceHooks.beforeSTT)
       }
@@ -251,28 +756,112 @@ export function createVoiceAgent(params: CreateVoiceAgentParams): VoiceAgent {
       }
 
       // Step 4: Agent processing
-      let agentOutput = textStream.pipeThrough(createAgentTransform())
+      let agentOutput = textStream
+        .pipeThrough(createTranscriptTapTransform())
+        .pipeThrough(createAgentTransform())
 
       // Step 5: Apply beforeTTS transforms
       if (voiceHooks.beforeTTS && voiceHooks.beforeTTS.length > 0) {
         agentOutput = pipeThroughTransforms(agentOutput, voiceHooks.beforeTTS)
       }
 
-      // Step 6: Text-to-Speech
-      let audioOutput: ReadableStream<Buffer> = agentOutput.pipeThrough(tts)
+      // Step 6: Text-to-Speech (behind the barge-in gate)
+      let audioOutput: ReadableStream<Buffer> = agentOutput
+        .pipeThrough(createSpeechGateTransform())
+        .pipeThrough(tts)
+        .pipeThrough(createAudioMonitorTransform())
 
       // Step 7: Apply afterTTS transforms
       if (voiceHooks.afterTTS && voiceHooks.afterTTS.length > 0) {
         audioOutput = pipeThroughTransforms(audioOutput, voiceHooks.afterTTS)
       }
 
+      // Step 8: Convert the TTS model's audio to the transport's format
+      if (outputFormat && !audioFormatsEqual(tts.audioFormat, outputFormat)) {
+        console.log(
+          `[VoiceAgent] Converting output audio from ${describeAudioFormat(tts.audioFormat)} to ${describeAudioFormat(outputFormat)}`
+        )
+        audioOutput = audioOutput.pipeThrough(
+          new AudioFormatTransform(tts.audioFormat, outputFormat)
+        )
+      }
+
       return audioOutput
     },
 
+    interrupt() {
+      if (isResponding()) handleBargeIn()
+    },
+
+    trackPlayback(waitForPlayback) {
+      state.waitForPlayback = waitForPlayback
+    },
+
     stop() {
       state.stopped = true
+      state.responseAbort?.abort()
       // Interrupt TTS if possible
       tts.interrupt()
+      // Close the STT's connection - a cancelled pipeline doesn't flush it
+      stt.interrupt?.()
+      events.removeAllListeners()
     },
   }
 }
+
+/**
+ * Appends the truncation marker to the spoken part of an interrupted reply.
+ */
+function markTruncated(spoken: string, marker: string): string {
+  return `${spoken.trimEnd()}${marker}`.trim()
+}
+
+/**
+ * Collects tool calls from a LangGraph `updates` stream payload.
+ * Each node update may contain AI messages with fully-formed tool calls.
+ */
+function extractToolCalls(
+  payload: unknown
+): Array<{ id?: string; name: string; args: Record<string, unknown> }> {
+  const toolCalls: Array<{ id?: string; name: string; args: Record<string, unknown> }> = []
+  if (!payload || typeof payload !== 'object') return toolCalls
+
+  for (const update of Object.values(payload)) {
+    const messages = (update as { messages?: unknown } | null)?.messages
+    if (!Array.isArray(messages)) continue
+
+    for (const message of messages) {
+      const calls = (message as { tool_calls?: unknown } | null)?.tool_calls
+      if (!Array.isArray(calls)) continue
+
+      for (const call of calls as Array<{ id?: string; name: string; args?: unknown }>) {
+        toolCalls.push({
+          id: call.id,
+          name: call.name,
+          args: (call.args ?? {}) as Record<string, unknown>,
+        })
+      }
+    }
+  }
+
+  return toolCalls
+}
+
+/**
+ * The text to speak for an interrupt: the value itself if it's a string, or
+ * its `spokenPrompt` for structured interrupt payloads.
+ */
+function getInterruptPrompt(value: unknown): string | null {
+  if (typeof value === 'string') return value
+  const spokenPrompt = (value as { spokenPrompt?: unknown } | null)?.spokenPrompt
+  return typeof spokenPrompt === 'string' ? spokenPrompt : null
+}
+
+/**
+ * Whether `graph` describes a LangGraph deployment rather than a graph object.
+ */
+function isRemoteGraphOptions(
+  graph: RemoteGraphOptions | VoiceAgentGraph
+): graph is RemoteGraphOptions {
+  return !('stream' in graph) && 'url' in graph && 'graphId' in graph
+}
@@ -0,0 +1,111 @@
+/**
+ * TTS Alignment
+ *
+ * Character and word timings that tie the text given to a TTS model to the audio
+ * it produced. Times are in milliseconds relative to the start of the TTS output
+ * stream, so a client that knows how much audio it has played can tell which
+ * words were heard (captions, karaoke-style highlighting, barge-in truncation).
+ */
+
+/**
+ * Timing of a single character.
+ */
+export interface CharacterTiming {
+  char: string
+  /** Start of the character's audio (ms from the start of the TTS output stream) */
+  startMs: number
+  /** End of the character's audio (ms from the start of the TTS output stream) */
+  endMs: number
+}
+
+/**
+ * Timing of a single word.
+ */
+export interface WordTiming {
+  word: string
+  /** Start of the word's audio (ms from the start of the TTS output stream) */
+  startMs: number
+  /** End of the word's audio (ms from the start of the TTS output stream) */
+  endMs: number
+}
+
+/**
+ * Alignment between a piece of text and the audio emitted for it.
+ */
+export interface TextToSpeechAlignment {
+  /** The text the timings belong to */
+  text: string
+  /** Per-character timings */
+  characters: CharacterTiming[]
+  /** Per-word timings (whitespace is not included) */
+  words: WordTiming[]
+  /**
+   * True when the timings were estimated from the audio duration rather than
+   * reported by the provider.
+   */
+  estimated: boolean
+}
+
+/**
+ * Relative duration of each character when estimating timings.
+ * Punctuation that ends a clause is usually followed by a short pause.
+ */
+function characterWeight(char: string): number {
+  if (/[.!?]/.test(char)) return 4
+  if (/[,;:]/.test(char)) return 2
+  if (/\s/.test(char)) return 0.5
+  return 1
+}
+
+/**
+ * Estimates character and word timings by spreading the audio duration over
+ * the text.
+ *
+ * @param text - The text that was spoken
+ * @param startMs - Where the text's audio starts in the TTS output stream
+ * @param durationMs - Duration of the text's audio
+ */
+export function estimateAlignment(
+  text: string,
+  startMs: number,
+  durationMs: number
+): TextToSpeechAlignment {
+  const chars = Array.from(text)
+  const totalWeight = chars.reduce((sum, char) => sum + characterWeight(char), 0)
+  const msPerWeight = totalWeight > 0 ? durationMs / totalWeight : 0
+
+  let position = startMs
+  const characters = chars.map((char) => {
+    const endMs = position + characterWeight(char) * msPerWeight
+    const timing = { char, startMs: position, endMs }
+    position = endMs
+    return timing
+  })
+
+  return { text, characters, words: groupWords(characters), estimated: true }
+}
+
+/**
+ * Groups character timings into word timings, splitting on whitespace.
+ */
+export function groupWords(characters: CharacterTiming[]): WordTiming[] {
+  const words: WordTiming[] = []
+  let current: WordTiming | null = null
+
+  for (const { char, startMs, endMs } of characters) {
+    if (/\s/.test(char)) {
+      current = null
+      continue
+    }
+
+    if (current) {
+      current.word += char
+      current.endMs = endMs
+    } else {
+      current = { word: char, startMs, endMs }
+      words.push(current)
+    }
+  }
+
+  return words
+}
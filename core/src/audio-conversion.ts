@@ -0,0 +1,506 @@
+/**
+ * Audio Conversion
+ *
+ * Streaming conversion between audio formats: G.711 μ-law/A-law codecs,
+ * float32/int16 PCM, channel up/downmixing and band-limited resampling.
+ * Used by the voice agent to bridge transports and providers that speak
+ * different formats, and by providers whose API has a fixed output rate.
+ */
+
+import {
+  audioFormatsEqual,
+  bytesPerSample,
+  describeAudioFormat,
+  isConvertibleFormat,
+  type AudioEncoding,
+  type AudioFormat,
+} from './audio-format.js'
+
+// ---------------------------------------------------------------------------
+// G.711 codecs
+// ---------------------------------------------------------------------------
+
+const MULAW_BIAS = 0x84
+const MULAW_CLIP = 32635
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff]
+
+function mulawEncodeSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS
+
+  let exponent = 7
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f
+  magnitude = sign | (exponent << 4) | mantissa
+  return ~magnitude & 0xff
+}
+
+function mulawDecodeSample(byte: number): number {
+  const value = ~byte & 0xff
+  const exponent = (value >> 4) & 0x07
+  const magnitude = ((((value & 0x0f) << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS
+  return value & 0x80 ? -magnitude : magnitude
+}
+
+function alawEncodeSample(sample: number): number {
+  let value = sample >> 3
+  let mask: number
+  if (value >= 0) {
+    mask = 0xd5
+  } else {
+    mask = 0x55
+    value = -value - 1
+  }
+
+  const segment = ALAW_SEGMENT_ENDS.findIndex((end) => value <= end)
+  if (segment === -1) return 0x7f ^ mask
+
+  const mantissa = segment < 2 ? (value >> 1) & 0x0f : (value >> segment) & 0x0f
+  return ((segment << 4) | mantissa) ^ mask
+}
+
+function alawDecodeSample(byte: number): number {
+  const value = byte ^ 0x55
+  const segment = (value & 0x70) >> 4
+  let magnitude = (value & 0x0f) << 4
+  if (segment === 0) {
+    magnitude += 8
+  } else {
+    magnitude = (magnitude + 0x108) << (segment - 1)
+  }
+  return value & 0x80 ? magnitude : -magnitude
+}
+
+const MULAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, byte) => mulawDecodeSample(byte))
+const ALAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, byte) => alawDecodeSample(byte))
+
+/**
+ * Encodes 16-bit PCM samples as G.711 μ-law.
+ */
+export function encodeMuLaw(samples: Int16Array): Buffer {
+  const output = Buffer.alloc(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = mulawEncodeSample(samples[i])
+  }
+  return output
+}
+
+/**
+ * Decodes G.711 μ-law to 16-bit PCM samples.
+ */
+export function decodeMuLaw(input: Uint8Array): Int16Array {
+  const samples = new Int16Array(input.length)
+  for (let i = 0; i < input.length; i++) {
+    samples[i] = MULAW_DECODE_TABLE[input[i]]
+  }
+  return samples
+}
+
+/**
+ * Encodes 16-bit PCM samples as G.711 A-law.
+ */
+export function encodeALaw(samples: Int16Array): Buffer {
+  const output = Buffer.alloc(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = alawEncodeSample(samples[i])
+  }
+  return output
+}
+
+/**
+ * Decodes G.711 A-law to 16-bit PCM samples.
+ */
+export function decodeALaw(input: Uint8Array): Int16Array {
+  const samples = new Int16Array(input.length)
+  for (let i = 0; i < input.length; i++) {
+    samples[i] = ALAW_DECODE_TABLE[input[i]]
+  }
+  return samples
+}
+
+// ---------------------------------------------------------------------------
+// Sample conversion and channel mixing
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts 16-bit samples to floats in [-1, 1).
+ */
+export function int16ToFloat32(samples: Int16Array): Float32Array {
+  const output = new Float32Array(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = samples[i] / 32768
+  }
+  return output
+}
+
+/**
+ * Converts float samples to 16-bit, clipping anything outside [-1, 1].
+ */
+export function float32ToInt16(samples: Float32Array): Int16Array {
+  const output = new Int16Array(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = Math.max(-32768, Math.min(32767, Math.round(samples[i] * 32768)))
+  }
+  return output
+}
+
+/**
+ * Averages interleaved channels into a single channel.
+ */
+export function downmixToMono(samples: Float32Array, channels: number): Float32Array {
+  if (channels === 1) return samples
+
+  const output = new Float32Array(Math.floor(samples.length / channels))
+  for (let frame = 0; frame < output.length; frame++) {
+    let sum = 0
+    for (let channel = 0; channel < channels; channel++) {
+      sum += samples[frame * channels + channel]
+    }
+    output[frame] = sum / channels
+  }
+  return output
+}
+
+/**
+ * Decodes bytes (whole frames only) into floats, still interleaved.
+ */
+function decodeSamples(input: Buffer, encoding: AudioEncoding): Float32Array {
+  switch (encoding) {
+    case 'pcm_s16le': {
+      const output = new Float32Array(input.length / 2)
+      for (let i = 0; i < output.length; i++) {
+        output[i] = input.readInt16LE(i * 2) / 32768
+      }
+      return output
+    }
+    case 'pcm_f32le': {
+      const output = new Float32Array(input.length / 4)
+      for (let i = 0; i < output.length; i++) {
+        output[i] = input.readFloatLE(i * 4)
+      }
+      return output
+    }
+    case 'mulaw':
+      return int16ToFloat32(decodeMuLaw(input))
+    case 'alaw':
+      return int16ToFloat32(decodeALaw(input))
+    default:
+      throw new Error(`Cannot decode ${encoding} audio`)
+  }
+}
+
+/**
+ * Encodes interleaved floats into bytes.
+ */
+function encodeSamples(samples: Float32Array, encoding: AudioEncoding): Buffer {
+  switch (encoding) {
+    case 'pcm_s16le': {
+      const pcm = float32ToInt16(samples)
+      return Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength)
+    }
+    case 'pcm_f32le': {
+      const output = Buffer.alloc(samples.length * 4)
+      for (let i = 0; i < samples.length; i++) {
+        output.writeFloatLE(samples[i], i * 4)
+      }
+      return output
+    }
+    case 'mulaw':
+      return encodeMuLaw(float32ToInt16(samples))
+    case 'alaw':
+      return encodeALaw(float32ToInt16(samples))
+    default:
+      throw new Error(`Cannot encode ${encoding} audio`)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Resampling
+// ---------------------------------------------------------------------------
+
+/** Zero crossings of the sinc kernel on each side of the center */
+const KERNEL_ZERO_CROSSINGS = 16
+/** Kernel table entries per zero crossing */
+const KERNEL_RESOLUTION = 128
+/** Passband as a fraction of the lower Nyquist frequency, leaving room for roll-off */
+const PASSBAND = 0.95
+
+/**
+ * Blackman-windowed sinc, indexed by distance in zero crossings.
+ */
+const KERNEL_TABLE = Float32Array.from(
+  { length: KERNEL_ZERO_CROSSINGS * KERNEL_RESOLUTION + 2 },
+  (_, i) => {
+    const x = i / KERNEL_RESOLUTION
+    if (x >= KERNEL_ZERO_CROSSINGS) return 0
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x)
+    const phase = (Math.PI * (x + KERNEL_ZERO_CROSSINGS)) / KERNEL_ZERO_CROSSINGS
+    const window = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase)
+    return sinc * window
+  }
+)
+
+/**
+ * Streaming band-limited resampler for a single channel.
+ *
+ * Each output sample is a windowed-sinc interpolation of the input, with the
+ * cutoff below the lower of the two Nyquist frequencies so downsampling does
+ * not alias. Output lags the input by half the kernel width (~1ms).
+ */
+class Resampler {
+  /** Input samples per output sample */
+  readonly #step: number
+  /** Filter cutoff as a fraction of the input Nyquist frequency */
+  readonly #cutoff: number
+  /** Kernel half-width in input samples */
+  readonly #halfWidth: number
+  /** Buffered input; `#buffer[0]` is input sample number `#bufferStart` */
+  #buffer = new Float32Array(0)
+  #bufferStart = 0
+  #inputLength = 0
+  #outputIndex = 0
+
+  constructor(fromRate: number, toRate: number) {
+    this.#step = fromRate / toRate
+    this.#cutoff = Math.min(1, toRate / fromRate) * PASSBAND
+    this.#halfWidth = KERNEL_ZERO_CROSSINGS / this.#cutoff
+  }
+
+  process(input: Float32Array): Float32Array {
+    this.#append(input)
+    this.#inputLength += input.length
+    return this.#drain(this.#bufferStart + this.#buffer.length)
+  }
+
+  /**
+   * Emits the samples still held back for look-ahead.
+   */
+  flush(): Float32Array {
+    const inputLength = this.#inputLength
+    // Pad with silence so the last samples have their full look-ahead
+    this.#append(new Float32Array(Math.ceil(this.#halfWidth) + 1))
+
+    const output: number[] = []
+    while (this.#outputIndex * this.#step < inputLength) {
+      output.push(this.#interpolate(this.#outputIndex * this.#step))
+      this.#outputIndex++
+    }
+    return Float32Array.from(output)
+  }
+
+  #append(input: Float32Array): void {
+    const combined = new Float32Array(this.#buffer.length + input.length)
+    combined.set(this.#buffer)
+    combined.set(input, this.#buffer.length)
+    this.#buffer = combined
+  }
+
+  #drain(inputEnd: number): Float32Array {
+    const output: number[] = []
+    for (;;) {
+      const time = this.#outputIndex * this.#step
+      if (Math.floor(time + this.#halfWidth) >= inputEnd) break
+      output.push(this.#interpolate(time))
+      this.#outputIndex++
+    }
+
+    // Drop input that no future output sample can reach
+    const keepFrom = Math.floor(this.#outputIndex * this.#step - this.#halfWidth)
+    const drop = Math.min(this.#buffer.length, keepFrom - this.#bufferStart)
+    if (drop > 0) {
+      this.#buffer = this.#buffer.subarray(drop)
+      this.#bufferStart += drop
+    }
+
+    return Float32Array.from(output)
+  }
+
+  #interpolate(time: number): number {
+    const first = Math.max(Math.ceil(time - this.#halfWidth), this.#bufferStart)
+    const last = Math.min(
+      Math.floor(time + this.#halfWidth),
+      this.#bufferStart + this.#buffer.length - 1
+    )
+
+    let sum = 0
+    for (let index = first; index <= last; index++) {
+      const position = Math.abs(time - index) * this.#cutoff * KERNEL_RESOLUTION
+      const tableIndex = Math.floor(position)
+      const fraction = position - tableIndex
+      const lower = KERNEL_TABLE[tableIndex]
+      const weight = lower + (KERNEL_TABLE[tableIndex + 1] - lower) * fraction
+      sum += this.#buffer[index - this.#bufferStart] * weight
+    }
+    return sum * this.#cutoff
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Format conversion
+// ---------------------------------------------------------------------------
+
+/**
+ * Stateful converter between two audio formats.
+ *
+ * Chunks may split frames anywhere; partial frames are held until the next
+ * chunk. Call `flush()` at the end of the stream to emit the resampler's tail.
+ *
+ * @example
+ * ```ts
+ * const converter = new AudioConverter(
+ *   { encoding: "mulaw", sampleRate: 8000 },
+ *   { encoding: "pcm_s16le", sampleRate: 16000 },
+ * );
+ * const pcm = converter.convert(twilioPayload);
+ * ```
+ */
+export class AudioConverter {
+  readonly from: AudioFormat
+  readonly to: AudioFormat
+  readonly #passthrough: boolean
+  readonly #fromChannels: number
+  readonly #toChannels: number
+  readonly #frameBytes: number
+  /** One resampler per processed channel, or null when the rates match */
+  readonly #resamplers: Resampler[] | null
+  #pendingBytes = Buffer.alloc(0)
+
+  constructor(from: AudioFormat, to: AudioFormat) {
+    this.from = from
+    this.to = to
+    this.#passthrough = audioFormatsEqual(from, to)
+    this.#fromChannels = from.channels ?? 1
+    this.#toChannels = to.channels ?? 1
+
+    if (!this.#passthrough && (!isConvertibleFormat(from) || !isConvertibleFormat(to))) {
+      throw new Error(
+        `Cannot convert audio from ${describeAudioFormat(from)} to ${describeAudioFormat(to)}: compressed formats are passed through only`
+      )
+    }
+    if (
+      this.#fromChannels !== this.#toChannels &&
+      this.#fromChannels !== 1 &&
+      this.#toChannels !== 1
+    ) {
+      throw new Error(
+        `Cannot convert audio from ${this.#fromChannels} to ${this.#toChannels} channels`
+      )
+    }
+
+    this.#frameBytes = (bytesPerSample(from.encoding) ?? 1) * this.#fromChannels
+
+    // Channels are mixed before resampling when downmixing, after it when upmixing
+    const resampledChannels = Math.min(this.#fromChannels, this.#toChannels)
+    this.#resamplers =
+      from.sampleRate === to.sampleRate
+        ? null
+        : Array.from(
+            { length: resampledChannels },
+            () => new Resampler(from.sampleRate, to.sampleRate)
+          )
+  }
+
+  /**
+   * Converts a chunk of audio. May return an empty buffer while the
+   * resampler fills its look-ahead.
+   */
+  convert(chunk: Buffer): Buffer {
+    if (this.#passthrough) return chunk
+
+    const combined = this.#pendingBytes.length ? Buffer.concat([this.#pendingBytes, chunk]) : chunk
+    const usable = combined.length - (combined.length % this.#frameBytes)
+    this.#pendingBytes = Buffer.from(combined.subarray(usable))
+
+    const samples = decodeSamples(combined.subarray(0, usable), this.from.encoding)
+    const channels = this.#splitChannels(samples)
+    const resamplers = this.#resamplers
+    return this.#encode(
+      resamplers ? channels.map((channel, i) => resamplers[i].process(channel)) : channels
+    )
+  }
+
+  /**
+   * Emits any audio held back by the resampler.
+   */
+  flush(): Buffer {
+    this.#pendingBytes = Buffer.alloc(0)
+    if (this.#passthrough || !this.#resamplers) return Buffer.alloc(0)
+    return this.#encode(this.#resamplers.map((resampler) => resampler.flush()))
+  }
+
+  /**
+   * Deinterleaves decoded samples, downmixing to mono if the target is mono.
+   */
+  #splitChannels(samples: Float32Array): Float32Array[] {
+    if (this.#fromChannels === 1) return [samples]
+    if (this.#toChannels === 1) return [downmixToMono(samples, this.#fromChannels)]
+
+    const frames = samples.length / this.#fromChannels
+    return Array.from({ length: this.#fromChannels }, (_, channel) => {
+      const output = new Float32Array(frames)
+      for (let frame = 0; frame < frames; frame++) {
+        output[frame] = samples[frame * this.#fromChannels + channel]
+      }
+      return output
+    })
+  }
+
+  /**
+   * Interleaves channels (duplicating mono if the target has more) and encodes.
+   */
+  #encode(channels: Float32Array[]): Buffer {
+    const frames = Math.min(...channels.map((samples) => samples.length))
+    const interleaved = new Float32Array(frames * this.#toChannels)
+    for (let frame = 0; frame < frames; frame++) {
+      for (let channel = 0; channel < this.#toChannels; channel++) {
+        const source = channels.length === 1 ? channels[0] : channels[channel]
+        interleaved[frame * this.#toChannels + channel] = source[frame]
+      }
+    }
+    return encodeSamples(interleaved, this.to.encoding)
+  }
+}
+
+/**
+ * Converts a complete buffer of audio in one go.
+ */
+export function convertAudio(input: Buffer, from: AudioFormat, to: AudioFormat): Buffer {
+  const converter = new AudioConverter(from, to)
+  return Buffer.concat([converter.convert(input), converter.flush()])
+}
+
+/**
+ * Transform stream that converts audio between two formats.
+ *
+ * @example
+ * ```ts
+ * const toPcm = new AudioFormatTransform(
+ *   { encoding: "pcm_f32le", sampleRate: 48000, channels: 2 },
+ *   { encoding: "pcm_s16le", sampleRate: 16000 },
+ * );
+ * const pcmStream = browserAudio.pipeThrough(toPcm);
+ * ```
+ */
+export class AudioFormatTransform extends TransformStream<Buffer, Buffer> {
+  constructor(from: AudioFormat, to: AudioFormat) {
+    const converter = new AudioConverter(from, to)
+
+    super({
+      transform(chunk, controller) {
+        const output = converter.convert(chunk)
+        if (output.length > 0) {
+          controller.enqueue(output)
+        }
+      },
+
+      flush(controller) {
+        const output = converter.flush()
+        if (output.length > 0) {
+          controller.enqueue(output)
+        }
+      },
+    })
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Audio Formats
+ *
+ * Describes the encoding, sample rate and channel layout of an audio stream.
+ * STT and TTS models report the format they consume or produce, and the voice
+ * agent converts between them and the transport (browser, phone line, ...)
+ * when they differ.
+ */
+
+/**
+ * Audio sample encodings.
+ * - `pcm_s16le`: 16-bit signed little-endian PCM
+ * - `pcm_f32le`: 32-bit float little-endian PCM (e.g. Web Audio)
+ * - `mulaw` / `alaw`: 8-bit G.711 companded audio (telephony)
+ * - `mp3` / `opus`: compressed audio, passed through but never converted
+ */
+export type AudioEncoding = 'pcm_s16le' | 'pcm_f32le' | 'mulaw' | 'alaw' | 'mp3' | 'opus'
+
+/**
+ * Describes an audio stream.
+ */
+export interface AudioFormat {
+  encoding: AudioEncoding
+  /** Samples per second (per channel) */
+  sampleRate: number
+  /**
+   * Number of interleaved channels.
+   * @default 1
+   */
+  channels?: number
+}
+
+/**
+ * The format every built-in model uses unless configured otherwise:
+ * 16kHz 16-bit mono PCM.
+ */
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = {
+  encoding: 'pcm_s16le',
+  sampleRate: 16000,
+  channels: 1,
+}
+
+/**
+ * Shorthand for a 16-bit PCM format.
+ */
+export function pcm16Format(sampleRate = 16000, channels = 1): AudioFormat {
+  return { encoding: 'pcm_s16le', sampleRate, channels }
+}
+
+/**
+ * Whether two formats describe the same stream layout.
+ */
+export function audioFormatsEqual(a: AudioFormat, b: AudioFormat): boolean {
+  return (
+    a.encoding === b.encoding &&
+    a.sampleRate === b.sampleRate &&
+    (a.channels ?? 1) === (b.channels ?? 1)
+  )
+}
+
+/**
+ * Whether the conversion layer can decode and encode the format.
+ */
+export function isConvertibleFormat(format: AudioFormat): boolean {
+  return format.encoding !== 'mp3' && format.encoding !== 'opus'
+}
+
+/**
+ * Bytes per sample of a single channel, or `null` for compressed encodings.
+ */
+export function bytesPerSample(encoding: AudioEncoding): number | null {
+  switch (encoding) {
+    case 'pcm_s16le':
+      return 2
+    case 'pcm_f32le':
+      return 4
+    case 'mulaw':
+    case 'alaw':
+      return 1
+    default:
+      return null
+  }
+}
+
+/**
+ * Bytes per second of audio, or `null` for compressed encodings.
+ */
+export function bytesPerSecond(format: AudioFormat): number | null {
+  const sampleBytes = bytesPerSample(format.encoding)
+  if (sampleBytes === null) return null
+  return sampleBytes * format.sampleRate * (format.channels ?? 1)
+}
+
+/**
+ * Human-readable description for logs, e.g. "pcm_s16le 16000Hz mono".
+ */
+export function describeAudioFormat(format: AudioFormat): string {
+  const channels = format.channels ?? 1
+  const layout = channels === 1 ? 'mono' : channels === 2 ? 'stereo' : `${channels}ch`
+  return `${format.encoding} ${format.sampleRate}Hz ${layout}`
+}
@@ -0,0 +1,132 @@
+/**
+ * Barge-in Policy
+ *
+ * Decides when user speech during an agent response should cut the response off.
+ * `createVoiceAgent` uses this to cancel the in-flight agent run, abort TTS and
+ * drop queued text, and to work out what part of the reply the user actually heard.
+ */
+
+/**
+ * How the voice agent reacts when the user speaks over it.
+ *
+ * - `immediate`: cut the response as soon as the STT reports speech
+ * - `confirmed`: wait for transcript evidence that the user kept talking for
+ *   at least `minSpeechMs` (ignores coughs, "mm-hm" and echo blips)
+ * - `off`: never cut the response; the user's turn is queued behind it
+ */
+export type BargeInMode = 'immediate' | 'confirmed' | 'off'
+
+/**
+ * Options for barge-in handling.
+ */
+export interface BargeInOptions {
+  /**
+   * Barge-in policy.
+   * @default "immediate"
+   */
+  mode?: BargeInMode
+
+  /**
+   * Minimum duration of user speech, in milliseconds, before a barge-in is
+   * confirmed. Only used in `confirmed` mode.
+   * @default 300
+   */
+  minSpeechMs?: number
+
+  /**
+   * Text appended to an assistant message that was cut off, so the model knows
+   * the user didn't hear the rest of it.
+   * @default " [interrupted by user]"
+   */
+  truncationMarker?: string
+}
+
+/**
+ * Marker appended to assistant messages cut off by a barge-in.
+ */
+export const DEFAULT_TRUNCATION_MARKER = ' [interrupted by user]'
+
+/**
+ * Tracks user speech while the agent is responding and fires the barge-in
+ * callback according to the configured policy.
+ */
+export class BargeInPolicy {
+  readonly #mode: BargeInMode
+  readonly #minSpeechMs: number
+  readonly #onBargeIn: () => void
+  #speechStartedAt: number | null = null
+
+  constructor(options: BargeInOptions, onBargeIn: () => void) {
+    const { mode = 'immediate', minSpeechMs = 300 } = options
+    this.#mode = mode
+    this.#minSpeechMs = minSpeechMs
+    this.#onBargeIn = onBargeIn
+  }
+
+  get mode(): BargeInMode {
+    return this.#mode
+  }
+
+  /**
+   * Called when the STT detects the start of user speech.
+   * @param isResponding - Whether the agent is currently responding
+   */
+  handleSpeechStart(isResponding: boolean): void {
+    if (!isResponding || this.#mode === 'off') return
+
+    if (this.#mode === 'immediate') {
+      this.#fire()
+      return
+    }
+
+    this.#speechStartedAt ??= Date.now()
+  }
+
+  /**
+   * Called for every transcript (partial or final) while the user is speaking.
+   * @param text - Transcript text
+   * @param isFinal - Whether this is the final transcript for the utterance
+   * @param isResponding - Whether the agent is currently responding
+   */
+  handleTranscript(text: string, isFinal: boolean, isResponding: boolean): void {
+    if (!isResponding || this.#mode !== 'confirmed' || text.trim().length === 0) return
+
+    // Providers without a speech start signal: the first transcript starts the clock
+    this.#speechStartedAt ??= Date.now()
+
+    if (isFinal || Date.now() - this.#speechStartedAt >= this.#minSpeechMs) {
+      this.#fire()
+    }
+  }
+
+  /**
+   * Forget any pending speech (e.g. when a new response starts).
+   */
+  reset(): void {
+    this.#speechStartedAt = null
+  }
+
+  #fire(): void {
+    this.#speechStartedAt = null
+    this.#onBargeIn()
+  }
+}
+
+/**
+ * Works out which prefix of an assistant message was spoken.
+ *
+ * `spokenText` is everything the TTS was given for the turn, which may start
+ * with text that is not part of the message (filler phrases, an earlier message
+ * in the same turn). The spoken part of `content` is therefore the longest
+ * prefix of `content` that `spokenText` ends with.
+ *
+ * @returns The spoken prefix of `content` (empty if none of it was spoken)
+ */
+export function getSpokenPrefix(content: string, spokenText: string): string {
+  for (let length = Math.min(content.length, spokenText.length); length > 0; length--) {
+    if (spokenText.endsWith(content.slice(0, length))) {
+      return content.slice(0, length)
+    }
+  }
+  return ''
+}
@@ -0,0 +1,307 @@
+/**
+ * EndOfTurnMiddleware
+ *
+ * Semantic end-of-turn detection. STT endpointing only listens for silence, so a
+ * user who pauses mid-sentence ("I'm looking for something between 120 and...")
+ * triggers the agent twice. This middleware holds each final transcript for a
+ * short window whose length depends on how finished the text sounds, and merges
+ * fragments that arrive within the window into a single agent turn.
+ */
+
+import { createVoiceMiddleware, type VoiceMiddleware } from './middleware.js'
+
+/**
+ * Options for the end-of-turn middleware.
+ */
+export interface EndOfTurnOptions {
+  /**
+   * Hold time in milliseconds for a transcript that sounds finished.
+   * @default 150
+   */
+  minHoldMs?: number
+
+  /**
+   * Hold time in milliseconds for a transcript that sounds unfinished.
+   * Also used while the user is speaking again during a hold.
+   * @default 1500
+   */
+  maxHoldMs?: number
+
+  /**
+   * Scores how finished a transcript sounds, from 0 (clearly unfinished) to
+   * 1 (clearly finished). The hold window shrinks as the score rises.
+   * @default scoreTurnCompletion
+   */
+  scoreCompletion?: (text: string) => number
+
+  /**
+   * Whether end-of-turn detection is enabled. When disabled, transcripts
+   * pass straight through.
+   * @default true
+   */
+  enabled?: boolean
+
+  /**
+   * Callback when a transcript is held, with the hold time in milliseconds.
+   */
+  onHold?: (text: string, holdMs: number) => void
+
+  /**
+   * Callback when a (possibly merged) turn is handed to the agent.
+   */
+  onTurnComplete?: (text: string, fragments: number) => void
+}
+
+/**
+ * Words that rarely end a finished sentence.
+ */
+const TRAILING_CONTINUATIONS = new Set([
+  'and',
+  'but',
+  'or',
+  'so',
+  'because',
+  'cause',
+  'if',
+  'then',
+  'than',
+  'when',
+  'while',
+  'which',
+  'that',
+  'to',
+  'of',
+  'for',
+  'with',
+  'from',
+  'between',
+  'at',
+  'in',
+  'on',
+  'about',
+  'like',
+  'the',
+  'a',
+  'an',
+  'my',
+  'our',
+  'your',
+  'is',
+  'are',
+  'was',
+  'am',
+  "i'm",
+  'around',
+  'maybe',
+  'plus',
+])
+
+/**
+ * Hesitation sounds that signal the user is still thinking.
+ */
+const HESITATIONS = new Set(['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'hmm', 'mm', 'ah'])
+
+/**
+ * Scores how finished a transcript sounds, from 0 (unfinished) to 1 (finished).
+ *
+ * Looks at how the text ends: trailing conjunctions and prepositions, hesitation
+ * sounds, dangling commas and dashes, and half-spoken number ranges
+ * ("between 120", "from $90k") all lower the score. A question mark raises it.
+ */
+export function scoreTurnCompletion(text: string): number {
+  const trimmed = text.trim()
+  if (trimmed.length === 0) return 0
+
+  // Punctuation-free last word, e.g. "and," -> "and"
+  const lastWord = (trimmed.split(/\s+/).pop() ?? '').toLowerCase().replace(/[^\p{L}\p{N}']/gu, '')
+
+  if (HESITATIONS.has(lastWord)) return 0.1
+  if (/(,|-|–|—|\.\.\.|…)$/.test(trimmed)) return 0.2
+  if (TRAILING_CONTINUATIONS.has(lastWord)) return 0.15
+
+  // Half of a range: "between 120", "from $90k", "a range of 80 thousand"
+  if (/\b(between|from|range of)\s+\$?[\d.,]+\s*(k|thousand|grand)?[.!]?$/i.test(trimmed)) {
+    return 0.2
+  }
+
+  // A dangling currency sign, or a lone number that may still get a unit ("120... thousand")
+  if (/\$\s*$/.test(trimmed)) return 0.2
+  if (/^\$?[\d.,]+[.!]?$/.test(trimmed)) return 0.5
+
+  if (trimmed.endsWith('?')) return 1
+  if (/[.!]$/.test(trimmed)) return 0.8
+
+  return 0.6
+}
+
+/**
+ * Internal state for the end-of-turn transform.
+ */
+interface EndOfTurnState {
+  controller: TransformStreamDefaultController<string> | null
+  timeoutId: ReturnType<typeof setTimeout> | null
+  fragments: string[]
+}
+
+/**
+ * Holds final transcripts and merges fragments into complete turns.
+ * Can be controlled externally when the user resumes speaking during a hold.
+ */
+export class EndOfTurnTransform extends TransformStream<string, string> {
+  readonly #minHoldMs: number
+  readonly #maxHoldMs: number
+  readonly #scoreCompletion: (text: string) => number
+  readonly #onHold?: (text: string, holdMs: number) => void
+  readonly #onTurnComplete?: (text: string, fragments: number) => void
+  readonly #state: EndOfTurnState
+
+  constructor(options: EndOfTurnOptions = {}) {
+    const {
+      minHoldMs = 150,
+      maxHoldMs = 1500,
+      scoreCompletion = scoreTurnCompletion,
+      enabled = true,
+      onHold,
+      onTurnComplete,
+    } = options
+
+    const state: EndOfTurnState = {
+      controller: null,
+      timeoutId: null,
+      fragments: [],
+    }
+
+    // Callback to hold a transcript (assigned after super())
+    let holdCallback: (text: string) => void = () => {}
+    // Callback to release held fragments (assigned after super())
+    let releaseCallback: () => void = () => {}
+
+    super({
+      start(controller) {
+        state.controller = controller
+      },
+
+      transform(chunk, controller) {
+        if (!enabled) {
+          controller.enqueue(chunk)
+          return
+        }
+        if (chunk.trim().length === 0) return
+
+        holdCallback(chunk)
+      },
+
+      flush() {
+        releaseCallback()
+      },
+    })
+
+    this.#state = state
+    this.#minHoldMs = minHoldMs
+    this.#maxHoldMs = maxHoldMs
+    this.#scoreCompletion = scoreCompletion
+    this.#onHold = onHold
+    this.#onTurnComplete = onTurnComplete
+
+    holdCallback = (text) => this.#hold(text)
+    releaseCallback = () => this.#release()
+  }
+
+  /**
+   * Call this when the user starts speaking again (speech start or a partial
+   * transcript). A pending turn is kept open for the maximum hold time so the
+   * next fragment can be merged into it.
+   */
+  notifyUserSpeaking(): void {
+    if (this.#state.fragments.length === 0) return
+    this.#schedule(this.#maxHoldMs)
+  }
+
+  /**
+   * Hand any held fragments to the agent immediately.
+   */
+  releasePendingTurn(): void {
+    this.#release()
+  }
+
+  #hold(text: string): void {
+    this.#state.fragments.push(text.trim())
+
+    const merged = this.#state.fragments.join(' ')
+    const score = Math.min(1, Math.max(0, this.#scoreCompletion(merged)))
+    const holdMs = Math.round(this.#minHoldMs + (this.#maxHoldMs - this.#minHoldMs) * (1 - score))
+
+    console.log(`[EndOfTurn] Holding "${merged}" for ${holdMs}ms (completion: ${score.toFixed(2)})`)
+    this.#onHold?.(merged, holdMs)
+    this.#schedule(holdMs)
+  }
+
+  #schedule(delayMs: number): void {
+    this.#clearTimer()
+    this.#state.timeoutId = setTimeout(() => this.#release(), delayMs)
+  }
+
+  #release(): void {
+    this.#clearTimer()
+    if (this.#state.fragments.length === 0) return
+
+    const fragments = this.#state.fragments.length
+    const merged = this.#state.fragments.join(' ')
+    this.#state.fragments = []
+
+    if (fragments > 1) {
+      console.log(`[EndOfTurn] Merged ${fragments} fragments into one turn: "${merged}"`)
+    }
+
+    try {
+      this.#state.controller?.enqueue(merged)
+    } catch {
+      // Stream already closed - nothing left to hand the turn to
+      return
+    }
+    this.#onTurnComplete?.(merged, fragments)
+  }
+
+  #clearTimer(): void {
+    if (this.#state.timeoutId) {
+      clearTimeout(this.#state.timeoutId)
+      this.#state.timeoutId = null
+    }
+  }
+}
+
+/**
+ * Creates an end-of-turn middleware.
+ *
+ * Final transcripts are held in `afterSTT` for an adaptive window: short when the
+ * text sounds finished, longer when it ends on "and", "um" or half a number range.
+ * Fragments that arrive within the window are merged into one agent turn.
+ *
+ * The middleware automatically keeps a pending turn open via the `onSpeechStart`
+ * and `onTranscript` hooks while the user is speaking again.
+ *
+ * @example
+ * ```ts
+ * const endOfTurn = createEndOfTurnMiddleware({ maxHoldMs: 1200 });
+ *
+ * const agent = createVoiceAgent({
+ *   stt: new AssemblyAISpeechToText({ ... }),
+ *   tts: new ElevenLabsTextToSpeech({ ... }),
+ *   middleware: [endOfTurn],
+ * });
+ * ```
+ */
+export function createEndOfTurnMiddleware(options: EndOfTurnOptions = {}): VoiceMiddleware {
+  const transform = new EndOfTurnTransform(options)
+
+  return createVoiceMiddleware({
+    name: 'EndOfTurn',
+    afterSTT: [transform],
+    onSpeechStart: () => transform.notifyUserSpeaking(),
+    onTranscript: (transcript) => {
+      if (!transcript.isFinal && transcript.text.trim().length > 0) {
+        transform.notifyUserSpeaking()
+      }
+    },
+  })
+}
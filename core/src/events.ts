@@ -0,0 +1,169 @@
+/**
+ * Voice Agent Events
+ *
+ * A small, typed event emitter that `createVoiceAgent` uses to publish what happens
+ * during a conversation. Every event carries the id of the turn it belongs to, so
+ * UIs, loggers and analytics can correlate transcripts, agent output and audio
+ * without wiring individual callbacks through the agent factory.
+ */
+
+import type { TextToSpeechAlignment } from './alignment.js'
+import type { TranscriptEvent } from './transcripts.js'
+
+/**
+ * Fields shared by every voice agent event.
+ */
+export interface VoiceAgentEventBase {
+  /**
+   * Monotonically increasing id of the turn this event belongs to.
+   * Turn 0 is the time before the user has said anything (e.g. a greeting).
+   */
+  turnId: number
+  /** Unix timestamp (ms) when the event was emitted */
+  timestamp: number
+}
+
+/**
+ * Optional recognition details carried by transcript events.
+ */
+export type TranscriptDetails = Pick<TranscriptEvent, 'confidence' | 'words' | 'language'>
+
+/**
+ * Payloads for each voice agent event, keyed by event name.
+ */
+export interface VoiceAgentEventMap {
+  /** The user started a new turn (first speech, partial or final transcript) */
+  turn_start: VoiceAgentEventBase
+  /** An interim transcript of what the user is saying */
+  transcript_partial: VoiceAgentEventBase & TranscriptDetails & { text: string }
+  /**
+   * The final transcript for the turn (after `afterSTT` middleware).
+   * Recognition details describe the STT's last final transcript.
+   */
+  transcript_final: VoiceAgentEventBase & TranscriptDetails & { text: string }
+  /** A chunk of assistant text streamed from the agent */
+  agent_token: VoiceAgentEventBase & { text: string }
+  /** The agent requested a tool call */
+  tool_call: VoiceAgentEventBase & {
+    id?: string
+    name: string
+    args: Record<string, unknown>
+  }
+  /** A tool returned a result */
+  tool_result: VoiceAgentEventBase & {
+    toolCallId: string
+    name?: string
+    content: unknown
+  }
+  /** The first audio chunk of the turn left the TTS */
+  tts_start: VoiceAgentEventBase
+  /** Character/word timings for audio the TTS emitted (drives captions) */
+  tts_alignment: VoiceAgentEventBase & { alignment: TextToSpeechAlignment }
+  /** The TTS finished producing audio */
+  tts_complete: VoiceAgentEventBase
+  /** The user started speaking while the agent was responding */
+  barge_in: VoiceAgentEventBase
+  /** The graph was interrupted (human-in-the-loop) */
+  interrupt: VoiceAgentEventBase & { value: unknown }
+  /** The agent called the `hang_up` tool */
+  hang_up: VoiceAgentEventBase & { reason: string }
+  /** Something went wrong while processing the turn */
+  error: VoiceAgentEventBase & { error: unknown }
+}
+
+/**
+ * Name of a voice agent event.
+ */
+export type VoiceAgentEventType = keyof VoiceAgentEventMap
+
+/**
+ * A voice agent event, discriminated by its `type`.
+ */
+export type VoiceAgentEvent = {
+  [K in VoiceAgentEventType]: { type: K } & VoiceAgentEventMap[K]
+}[VoiceAgentEventType]
+
+/**
+ * Listener for a single voice agent event type.
+ */
+export type VoiceAgentEventListener<K extends VoiceAgentEventType> = (
+  event: { type: K } & VoiceAgentEventMap[K]
+) => void
+
+/**
+ * Typed event emitter for voice agent events.
+ *
+ * Listener errors are caught and logged so a faulty subscriber can never
+ * break the audio pipeline.
+ */
+export class VoiceAgentEventEmitter {
+  readonly #listeners = new Map<VoiceAgentEventType, Set<(event: VoiceAgentEvent) => void>>()
+  readonly #anyListeners = new Set<(event: VoiceAgentEvent) => void>()
+
+  /**
+   * Subscribe to an event.
+   * @returns A function that removes the listener.
+   */
+  on<K extends VoiceAgentEventType>(type: K, listener: VoiceAgentEventListener<K>): () => void {
+    let listeners = this.#listeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.#listeners.set(type, listeners)
+    }
+    listeners.add(listener as (event: VoiceAgentEvent) => void)
+    return () => this.off(type, listener)
+  }
+
+  /**
+   * Subscribe to an event for a single emission.
+   * @returns A function that removes the listener.
+   */
+  once<K extends VoiceAgentEventType>(type: K, listener: VoiceAgentEventListener<K>): () => void {
+    const unsubscribe = this.on(type, (event) => {
+      unsubscribe()
+      listener(event)
+    })
+    return unsubscribe
+  }
+
+  /**
+   * Remove a listener previously registered with `on()`.
+   */
+  off<K extends VoiceAgentEventType>(type: K, listener: VoiceAgentEventListener<K>): void {
+    this.#listeners.get(type)?.delete(listener as (event: VoiceAgentEvent) => void)
+  }
+
+  /**
+   * Subscribe to every event (useful for logging or forwarding to a client).
+   * @returns A function that removes the listener.
+   */
+  onAny(listener: (event: VoiceAgentEvent) => void): () => void {
+    this.#anyListeners.add(listener)
+    return () => {
+      this.#anyListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Emit an event to all matching listeners.
+   */
+  emit<K extends VoiceAgentEventType>(type: K, payload: VoiceAgentEventMap[K]): void {
+    const event = { type, ...payload } as VoiceAgentEvent
+    const listeners = [...(this.#listeners.get(type) ?? []), ...this.#anyListeners]
+    for (const listener of listeners) {
+      try {
+        listener(event)
+      } catch (err) {
+        console.error(`[VoiceAgent] Error in "${type}" event listener:`, err)
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners.
+   */
+  removeAllListeners(): void {
+    this.#listeners.clear()
+    this.#anyListeners.clear()
+  }
+}
@@ -11,6 +11,15 @@ export {
   type SpeechToTextModelParams,
   type TextToSpeechModelParams,
 } from './models.js'
+export { SpeechSegmentTracker, type SpeechSegment } from './speech-segments.js'
+export { averageConfidence, type TranscriptEvent, type TranscriptWord } from './transcripts.js'
+export {
+  estimateAlignment,
+  groupWords,
+  type CharacterTiming,
+  type WordTiming,
+  type TextToSpeechAlignment,
+} from './alignment.js'
 
 // Middleware
 export {
@@ -27,7 +36,51 @@ export {
 } from './middleware.js'
 
 // Voice Agent
-export { createVoiceAgent, type CreateVoiceAgentParams, type VoiceAgent } from './agent.js'
+export {
+  createVoiceAgent,
+  type CreateVoiceAgentParams,
+  type CreateRemoteVoiceAgentParams,
+  type RemoteGraphOptions,
+  type VoiceAgent,
+  type VoiceAgentGraph,
+  type VoiceAgentOptions,
+} from './agent.js'
+
+// Transports and sessions
+export {
+  BaseVoiceTransport,
+  DataChannelTransport,
+  WebSocketTransport,
+  InMemoryTransport,
+  type VoiceTransport,
+  type VoiceTransportOptions,
+  type VoiceControlMessage,
+  type DataChannelLike,
+  type DataChannelTransportOptions,
+  type WebSocketLike,
+  type InMemoryTransportOptions,
+} from './transport.js'
+export { runVoiceSession, type VoiceSession, type VoiceSessionOptions } from './session.js'
+
+// Barge-in
+export {
+  BargeInPolicy,
+  DEFAULT_TRUNCATION_MARKER,
+  getSpokenPrefix,
+  type BargeInMode,
+  type BargeInOptions,
+} from './barge-in.js'
+
+// Events
+export {
+  VoiceAgentEventEmitter,
+  type VoiceAgentEvent,
+  type VoiceAgentEventBase,
+  type VoiceAgentEventListener,
+  type VoiceAgentEventMap,
+  type VoiceAgentEventType,
+  type TranscriptDetails,
+} from './events.js'
 
 // Built-in Middleware
 export {
@@ -36,6 +89,13 @@ export {
   type ThinkingFillerOptions,
 } from './thinking-filler.js'
 
+export {
+  EndOfTurnTransform,
+  createEndOfTurnMiddleware,
+  scoreTurnCompletion,
+  type EndOfTurnOptions,
+} from './end-of-turn.js'
+
 export {
   createPipelineVisualizerMiddleware,
   type PipelineVisualizerOptions,
@@ -45,4 +105,43 @@ export {
 } from './pipeline-visualizer.js'
 
 // Utilities
-export { VADBufferTransform, type VADBufferOptions } from './vad.js'
+export {
+  VADBufferTransform,
+  isSpeechStartSource,
+  type VADBufferOptions,
+  type SpeechStartSource,
+} from './vad.js'
+export {
+  EnergyVAD,
+  AdaptiveEnergyVAD,
+  pcm16ToSamples,
+  type VoiceActivityDetector,
+  type EnergyVADOptions,
+  type AdaptiveEnergyVADOptions,
+} from './voice-activity.js'
+export { SileroVAD, type SileroVADOptions } from './silero-vad.js'
+
+// Audio formats and conversion
+export {
+  DEFAULT_AUDIO_FORMAT,
+  pcm16Format,
+  audioFormatsEqual,
+  isConvertibleFormat,
+  bytesPerSample,
+  bytesPerSecond,
+  describeAudioFormat,
+  type AudioEncoding,
+  type AudioFormat,
+} from './audio-format.js'
+export {
+  AudioConverter,
+  AudioFormatTransform,
+  convertAudio,
+  encodeMuLaw,
+  decodeMuLaw,
+  encodeALaw,
+  decodeALaw,
+  int16ToFloat32,
+  float32ToInt16,
+  downmixToMono,
+} from './audio-conversion.js'
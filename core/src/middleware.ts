@@ -5,7 +5,7 @@
  * pattern, allowing users to create middleware with:
  * - All standard LangChain agent middleware hooks (wrapToolCall, wrapModelCall, beforeModel, afterModel, etc.)
  * - Voice-specific transform hooks (beforeSTT, afterSTT, beforeTTS, afterTTS)
- * - Voice-specific event hooks (onSpeechStart, onAudioComplete)
+ * - Voice-specific event hooks (onSpeechStart, onTranscript, onAudioComplete)
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -20,6 +20,8 @@ import type {
   InferInteropZodOutput,
 } from '@langchain/core/utils/types'
 
+import type { TranscriptEvent } from './transcripts.js'
+
 // Re-export AgentMiddleware for consumers
 export type { AgentMiddleware }
 
@@ -74,6 +76,14 @@ export interface VoiceEventHooks {
    */
   onSpeechStart?: () => void
 
+  /**
+   * Called for every partial and final transcript from the STT.
+   * Useful for live captions and transcript-driven logic that should work
+   * the same way for every STT provider.
+   * Multiple middleware can register this hook; all will be called.
+   */
+  onTranscript?: (transcript: TranscriptEvent) => void
+
   /**
    * Called when the TTS finishes playing audio.
    * Useful for triggering actions after the agent finishes speaking
@@ -159,6 +169,12 @@ export interface CreateVoiceMiddlewareConfig<
    */
   onSpeechStart?: () => void
 
+  /**
+   * Called for every partial and final transcript from the STT.
+   * Useful for live captions.
+   */
+  onTranscript?: (transcript: TranscriptEvent) => void
+
   /**
    * Called when the TTS finishes playing audio.
    * Useful for triggering actions after the agent finishes speaking.
@@ -239,6 +255,7 @@ export function createVoiceMiddleware<
       beforeTTS: config.beforeTTS,
       afterTTS: config.afterTTS,
       onSpeechStart: config.onSpeechStart,
+      onTranscript: config.onTranscript,
       onAudioComplete: config.onAudioComplete,
     },
   } satisfies VoiceMiddleware<TSchema, TContextSchema>
@@ -294,6 +311,7 @@ export function combineMiddleware(
 
   // Collect event callbacks from all voice middleware
   const speechStartCallbacks: Array<() => void> = []
+  const transcriptCallbacks: Array<(transcript: TranscriptEvent) => void> = []
   const audioCompleteCallbacks: Array<() => void> = []
 
   for (const middleware of middlewares) {
@@ -323,6 +341,9 @@ export function combineMiddleware(
       if (voiceHooks.onSpeechStart) {
         speechStartCallbacks.push(voiceHooks.onSpeechStart)
       }
+      if (voiceHooks.onTranscript) {
+        transcriptCallbacks.push(voiceHooks.onTranscript)
+      }
       if (voiceHooks.onAudioComplete) {
         audioCompleteCallbacks.push(voiceHooks.onAudioComplete)
       }
@@ -338,6 +359,14 @@ export function combineMiddleware(
     }
   }
 
+  if (transcriptCallbacks.length > 0) {
+    combined.onTranscript = (transcript) => {
+      for (const callback of transcriptCallbacks) {
+        callback(transcript)
+      }
+    }
+  }
+
   if (audioCompleteCallbacks.length > 0) {
     combined.onAudioComplete = () => {
       for (const callback of audioCompleteCallbacks) {
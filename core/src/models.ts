@@ -3,6 +3,11 @@
  * These align with LangChain's model abstractions but are specialized for voice.
  */
 
+import type { CharacterTiming, TextToSpeechAlignment } from './alignment.js'
+import { DEFAULT_AUDIO_FORMAT, type AudioFormat } from './audio-format.js'
+import { SpeechSegmentTracker } from './speech-segments.js'
+import type { TranscriptEvent } from './transcripts.js'
+
 /**
  * Base interface for Speech-to-Text models.
  * Implementations should extend TransformStream<Buffer, string>.
@@ -13,8 +18,15 @@
 export interface SpeechToTextModelParams {
   /** Sample rate of input audio (default: 16000) */
   sampleRate?: number
+  /**
+   * Format of the input audio. Overrides `sampleRate`; providers reject
+   * formats their API can't accept.
+   */
+  audioFormat?: AudioFormat
   /** Callback when speech is detected (useful for barge-in) */
   onSpeechStart?: () => void
+  /** Callback for every partial and final transcript (useful for live captions) */
+  onTranscript?: (transcript: TranscriptEvent) => void
 }
 
 /**
@@ -24,9 +36,21 @@ export interface SpeechToTextModelParams {
 export abstract class BaseSpeechToTextModel extends TransformStream<Buffer, string> {
   abstract readonly provider: string
 
+  /**
+   * Format of the audio the model consumes. The voice agent converts its input
+   * to this format when they differ.
+   */
+  audioFormat: AudioFormat = DEFAULT_AUDIO_FORMAT
+
   /** Registered speech start listeners */
   protected speechStartListeners: Array<() => void> = []
 
+  /** Registered transcript listeners */
+  protected transcriptListeners: Array<(transcript: TranscriptEvent) => void> = []
+
+  /** Id of the utterance currently being transcribed (see `TranscriptEvent.turnId`) */
+  protected transcriptTurnId = 1
+
   /**
    * Interrupt the current transcription (e.g., for barge-in support).
    * Not all providers support this.
@@ -60,6 +84,40 @@ export abstract class BaseSpeechToTextModel extends TransformStream<Buffer, stri
       listener()
     }
   }
+
+  /**
+   * Add a listener for structured transcripts (partial and final).
+   * Partials are only reported by providers that produce interim results.
+   */
+  addTranscriptListener(listener: (transcript: TranscriptEvent) => void): void {
+    this.transcriptListeners.push(listener)
+  }
+
+  /**
+   * Remove a transcript listener.
+   */
+  removeTranscriptListener(listener: (transcript: TranscriptEvent) => void): void {
+    const index = this.transcriptListeners.indexOf(listener)
+    if (index > -1) {
+      this.transcriptListeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Called by implementations for every partial and final transcript.
+   * Stamps the utterance id and notifies all registered listeners.
+   * Final transcripts should be reported before they are enqueued.
+   */
+  protected notifyTranscript(transcript: Omit<TranscriptEvent, 'turnId'>): void {
+    const event: TranscriptEvent = { ...transcript, turnId: this.transcriptTurnId }
+    if (transcript.isFinal) {
+      this.transcriptTurnId++
+    }
+
+    for (const listener of this.transcriptListeners) {
+      listener(event)
+    }
+  }
 }
 
 /**
@@ -72,6 +130,11 @@ export abstract class BaseSpeechToTextModel extends TransformStream<Buffer, stri
 export interface TextToSpeechModelParams {
   /** Output sample rate (default: 16000) */
   outputSampleRate?: number
+  /**
+   * Format of the output audio. Overrides `outputSampleRate`; providers reject
+   * formats they can't produce.
+   */
+  audioFormat?: AudioFormat
   /** Callback when audio generation is interrupted */
   onInterrupt?: () => void
   /** Callback when audio generation is complete */
@@ -85,9 +148,26 @@ export interface TextToSpeechModelParams {
 export abstract class BaseTextToSpeechModel extends TransformStream<string, Buffer> {
   abstract readonly provider: string
 
+  /**
+   * Format of the audio the model produces. The voice agent converts it to
+   * its output format when they differ.
+   */
+  audioFormat: AudioFormat = DEFAULT_AUDIO_FORMAT
+
   /** Registered audio complete listeners */
   protected audioCompleteListeners: Array<() => void> = []
 
+  /** Registered alignment listeners */
+  protected alignmentListeners: Array<(alignment: TextToSpeechAlignment) => void> = []
+
+  /**
+   * Tracks which text has been turned into audio.
+   * Implementations report segments and emitted audio so the voice agent can
+   * tell what the user actually heard when they barge in. Segments without
+   * provider timings get an estimated alignment when they complete.
+   */
+  readonly speechSegments = new SpeechSegmentTracker((alignment) => this.notifyAlignment(alignment))
+
   /**
    * Interrupt the current TTS output (e.g., for barge-in support).
    * Stops audio generation and clears any pending tokens.
@@ -131,4 +211,51 @@ export abstract class BaseTextToSpeechModel extends TransformStream<string, Buff
       listener()
     }
   }
+
+  /**
+   * Add a listener for character/word timings of the emitted audio.
+   * Timings are relative to the start of this model's output stream.
+   */
+  addAlignmentListener(listener: (alignment: TextToSpeechAlignment) => void): void {
+    this.alignmentListeners.push(listener)
+  }
+
+  /**
+   * Remove an alignment listener.
+   */
+  removeAlignmentListener(listener: (alignment: TextToSpeechAlignment) => void): void {
+    const index = this.alignmentListeners.indexOf(listener)
+    if (index > -1) {
+      this.alignmentListeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Called by implementations that receive character timings from their provider.
+   * Timings are relative to the start of the current segment's audio; they are
+   * attached to the segment and forwarded to alignment listeners.
+   */
+  protected notifyCharacterTimings(characters: CharacterTiming[]): void {
+    const alignment = this.speechSegments.align(characters)
+    if (alignment) {
+      this.notifyAlignment(alignment)
+    }
+  }
+
+  /**
+   * Notifies all registered alignment listeners.
+   */
+  protected notifyAlignment(alignment: TextToSpeechAlignment): void {
+    for (const listener of this.alignmentListeners) {
+      listener(alignment)
+    }
+  }
+
+  /**
+   * Get the text whose audio has been emitted since the segments were last reset.
+   * Returns an empty string if the implementation doesn't report segments.
+   */
+  getSpokenText(): string {
+    return this.speechSegments.getSpokenText()
+  }
 }
@@ -0,0 +1,163 @@
+/**
+ * Voice Sessions
+ *
+ * `runVoiceSession()` connects a voice agent to a transport for the length of
+ * one call: it feeds the user's audio into the agent, streams replies back,
+ * clears the client's playback on barge-in and hangs up once the agent's
+ * goodbye has actually been heard.
+ */
+
+import type { VoiceAgent } from './agent.js'
+import { AudioFormatTransform } from './audio-conversion.js'
+import { audioFormatsEqual, type AudioFormat } from './audio-format.js'
+import type { VoiceTransport } from './transport.js'
+
+/**
+ * Time given to audio still in the pipeline to reach the transport before a
+ * playback mark is placed (ms).
+ */
+const MARK_DELAY_MS = 100
+
+export interface VoiceSessionOptions {
+  /** Spoken as soon as the session starts */
+  greeting?: string
+}
+
+/**
+ * A running voice session.
+ */
+export interface VoiceSession {
+  readonly agent: VoiceAgent
+  readonly transport: VoiceTransport
+  /** Resolves with the close reason once the session has ended */
+  readonly ended: Promise<string>
+  /** Resolves once the user has heard all audio sent so far (or the transport closed) */
+  waitForPlayback(): Promise<void>
+  /** End the session and close the transport */
+  close(reason?: string): void
+}
+
+/**
+ * Runs a voice agent over a transport until either side hangs up.
+ *
+ * Audio is converted between the transport's `audioFormat` and the agent's
+ * input/output formats when they differ. When the agent calls `hang_up`, the
+ * transport is closed after the final reply has finished playing.
+ *
+ * @example
+ * ```ts
+ * const transport = new WebSocketTransport(socket, { audioFormat: pcm16Format(16000) })
+ * const session = runVoiceSession(createVoiceAgent({ ... }), transport, {
+ *   greeting: "Hi! How can I help?",
+ * })
+ * const reason = await session.ended
+ * ```
+ */
+export function runVoiceSession(
+  agent: VoiceAgent,
+  transport: VoiceTransport,
+  options: VoiceSessionOptions = {}
+): VoiceSession {
+  const { greeting } = options
+  const wireFormat = transport.audioFormat
+
+  let markCount = 0
+  let pendingHangUp: string | null = null
+  let resolveEnded: (reason: string) => void = () => {}
+  const ended = new Promise<string>((resolve) => {
+    resolveEnded = resolve
+  })
+
+  /**
+   * Converts agent audio in `from` to the transport's format.
+   */
+  const toTransportFormat = (stream: ReadableStream<Buffer>, from: AudioFormat) => {
+    const to = wireFormat ?? agent.outputFormat
+    return audioFormatsEqual(from, to)
+      ? stream
+      : stream.pipeThrough(new AudioFormatTransform(from, to))
+  }
+
+  const forward = async (stream: ReadableStream<Buffer>, label: string) => {
+    const reader = stream.getReader()
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done || transport.closed) break
+        transport.sendAudio(value)
+      }
+    } catch (e) {
+      console.error(`[VoiceSession] ${label} error:`, e)
+      if (label === 'Pipeline') transport.close('pipeline error')
+    } finally {
+      reader.cancel().catch(() => {})
+    }
+  }
+
+  const waitForPlayback = () =>
+    new Promise<void>((resolve) => {
+      if (transport.closed) return resolve()
+
+      // Give audio still in the pipeline a moment to reach the transport first
+      setTimeout(() => {
+        if (transport.closed) return resolve()
+
+        const name = `playback-${++markCount}`
+        const done = () => {
+          unsubscribeMark()
+          unsubscribeClose()
+          resolve()
+        }
+        const unsubscribeMark = transport.onPlaybackMark((mark) => {
+          if (mark === name) done()
+        })
+        const unsubscribeClose = transport.onClose(done)
+        transport.mark(name)
+      }, MARK_DELAY_MS)
+    })
+
+  // The agent keeps listening for barge-in until its reply has been heard
+  agent.trackPlayback(waitForPlayback)
+
+  // Barge-in: the agent cancels its response, the client drops buffered audio
+  agent.on('barge_in', () => transport.clearPlayback())
+
+  // Hang up once the goodbye has been synthesized and played
+  agent.on('hang_up', ({ reason }) => {
+    pendingHangUp = reason
+  })
+  agent.on('tts_complete', async () => {
+    if (pendingHangUp === null) return
+    const reason = pendingHangUp
+    pendingHangUp = null
+    await waitForPlayback()
+    console.log(`[VoiceSession] Hanging up (${reason})`)
+    transport.close(reason)
+  })
+
+  transport.onClose((reason) => {
+    console.log(`[VoiceSession] Session ended (${reason})`)
+    agent.stop()
+    resolveEnded(reason)
+  })
+
+  let input = transport.input
+  if (wireFormat && !audioFormatsEqual(wireFormat, agent.inputFormat)) {
+    input = input.pipeThrough(new AudioFormatTransform(wireFormat, agent.inputFormat))
+  }
+
+  if (greeting) {
+    void forward(toTransportFormat(agent.tts.speak(greeting), agent.tts.audioFormat), 'Greeting')
+  }
+  void forward(toTransportFormat(agent.process(input), agent.outputFormat), 'Pipeline')
+
+  return {
+    agent,
+    transport,
+    ended,
+    waitForPlayback,
+    close(reason = 'closed') {
+      transport.close(reason)
+    },
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Speech Segment Tracking
+ *
+ * Keeps track of which text a TTS provider has turned into audio. Providers
+ * report each piece of text they synthesize (a "segment") and every audio chunk
+ * they emit for it; the tracker can then tell how much of the text has actually
+ * been voiced. This is what lets the voice agent keep only the spoken part of an
+ * assistant reply after a barge-in.
+ */
+
+import {
+  estimateAlignment,
+  groupWords,
+  type CharacterTiming,
+  type TextToSpeechAlignment,
+} from './alignment.js'
+
+/**
+ * A piece of text handed to a TTS provider and the audio emitted for it so far.
+ */
+export interface SpeechSegment {
+  /** The text being synthesized */
+  text: string
+  /** Bytes of audio emitted for this segment */
+  audioBytes: number
+  /** Whether all audio for this segment has been emitted */
+  complete: boolean
+  /** Position in the output stream (bytes) where this segment's audio starts */
+  startBytes: number | null
+  /** Character timings reported by the provider, if any */
+  characters: CharacterTiming[]
+}
+
+/**
+ * Average speaking rate used to estimate progress through a segment
+ * whose audio is still streaming (~165 words per minute).
+ */
+const CHARS_PER_SECOND = 14
+
+/**
+ * Records text segments and the audio emitted for them.
+ *
+ * Audio is attributed to the oldest incomplete segment, so providers that
+ * synthesize one segment at a time only need to call `begin()`, `recordAudio()`
+ * and `complete()`. Providers that cannot tell when a segment ends may skip
+ * `complete()`; audio beyond a segment's estimated length then rolls over to
+ * the next one.
+ *
+ * Providers that know exact timings report them with `align()`. For other
+ * segments an alignment is estimated from the audio duration once the segment
+ * completes.
+ */
+export class SpeechSegmentTracker {
+  /**
+   * Bytes of audio per second of speech (default: 16kHz, 16-bit mono).
+   * Providers should set this to match their output format.
+   */
+  bytesPerSecond = 32000
+
+  #segments: SpeechSegment[] = []
+  #streamBytes = 0
+  readonly #onAlignment: ((alignment: TextToSpeechAlignment) => void) | undefined
+
+  /**
+   * @param onAlignment - Called with the alignment of each completed segment
+   *   whose timings were not reported through `align()`
+   */
+  constructor(onAlignment?: (alignment: TextToSpeechAlignment) => void) {
+    this.#onAlignment = onAlignment
+  }
+
+  /**
+   * Current position in the output stream (ms of audio emitted so far).
+   */
+  get positionMs(): number {
+    return this.#toMs(this.#streamBytes)
+  }
+
+  /**
+   * The segments recorded since the last reset.
+   */
+  get segments(): readonly SpeechSegment[] {
+    return this.#segments
+  }
+
+  /**
+   * Record that the provider started synthesizing `text`.
+   */
+  begin(text: string): void {
+    if (text.length === 0) return
+    this.#segments.push({
+      text,
+      audioBytes: 0,
+      complete: false,
+      startBytes: null,
+      characters: [],
+    })
+  }
+
+  /**
+   * Record that `bytes` of audio were emitted.
+   */
+  recordAudio(bytes: number): void {
+    let segment = this.#current()
+    if (!segment) return
+
+    // Roll over to the next segment once this one has clearly been voiced
+    const next = this.#segments[this.#segments.indexOf(segment) + 1]
+    if (next && segment.audioBytes >= this.#estimateBytes(segment.text)) {
+      this.#markComplete(segment)
+      segment = next
+    }
+
+    segment.startBytes ??= this.#streamBytes
+    segment.audioBytes += bytes
+    this.#streamBytes += bytes
+  }
+
+  /**
+   * Attach provider-reported character timings to the oldest incomplete segment.
+   * May be called several times per segment as timings stream in.
+   *
+   * @param characters - Timings relative to the start of the segment's audio
+   * @returns The alignment with times relative to the output stream, or `null`
+   *   if there is no segment to attach it to
+   */
+  align(characters: CharacterTiming[]): TextToSpeechAlignment | null {
+    const segment = this.#current()
+    if (!segment || characters.length === 0) return null
+
+    const offsetMs = this.#toMs(segment.startBytes ?? this.#streamBytes)
+    const timings = characters.map(({ char, startMs, endMs }) => ({
+      char,
+      startMs: offsetMs + startMs,
+      endMs: offsetMs + endMs,
+    }))
+    segment.characters.push(...timings)
+
+    return {
+      text: timings.map(({ char }) => char).join(''),
+      characters: timings,
+      words: groupWords(timings),
+      estimated: false,
+    }
+  }
+
+  /**
+   * Record that all audio for the oldest incomplete segment has been emitted.
+   */
+  complete(): void {
+    const segment = this.#current()
+    if (segment) this.#markComplete(segment)
+  }
+
+  /**
+   * Get the text whose audio has been emitted.
+   * For a segment that is still streaming, the spoken part comes from its
+   * character timings (or is estimated from its audio duration) and is cut back
+   * to the last whole word.
+   */
+  getSpokenText(): string {
+    let spoken = ''
+
+    for (const segment of this.#segments) {
+      if (segment.complete) {
+        spoken += segment.text
+        continue
+      }
+
+      if (segment.characters.length > 0) {
+        const positionMs = this.positionMs
+        const chars = segment.characters.filter(({ endMs }) => endMs <= positionMs).length
+        spoken += cutToWordBoundary(segment.text, chars)
+      } else if (segment.audioBytes > 0) {
+        const seconds = segment.audioBytes / this.bytesPerSecond
+        const chars = Math.min(segment.text.length, Math.floor(seconds * CHARS_PER_SECOND))
+        spoken += cutToWordBoundary(segment.text, chars)
+      }
+      break
+    }
+
+    return spoken
+  }
+
+  /**
+   * Forget all segments (e.g. at the start of a new response).
+   */
+  reset(): void {
+    this.#segments = []
+  }
+
+  #current(): SpeechSegment | undefined {
+    return this.#segments.find((segment) => !segment.complete)
+  }
+
+  #markComplete(segment: SpeechSegment): void {
+    segment.complete = true
+
+    if (segment.characters.length === 0 && segment.startBytes !== null && this.#onAlignment) {
+      const startMs = this.#toMs(segment.startBytes)
+      this.#onAlignment(estimateAlignment(segment.text, startMs, this.#toMs(segment.audioBytes)))
+    }
+  }
+
+  #toMs(bytes: number): number {
+    return (bytes / this.bytesPerSecond) * 1000
+  }
+
+  #estimateBytes(text: string): number {
+    return (text.length / CHARS_PER_SECOND) * this.bytesPerSecond
+  }
+}
+
+/**
+ * Cuts `text` to at most `length` characters without splitting a word.
+ */
+function cutToWordBoundary(text: string, length: number): string {
+  if (length >= text.length) return text
+  // The cut lands exactly between two words
+  if (/\s/.test(text[length] ?? '')) return text.slice(0, length)
+
+  const lastSpace = text.slice(0, length).search(/\s\S*$/)
+  return lastSpace === -1 ? '' : text.slice(0, lastSpace)
+}
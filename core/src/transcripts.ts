@@ -0,0 +1,54 @@
+/**
+ * Transcript Events
+ *
+ * Provider-agnostic description of what a Speech-to-Text model heard. Every STT
+ * model reports partial and final transcripts in this shape, so middleware and
+ * live captions work the same way regardless of the provider.
+ */
+
+/**
+ * A single recognized word.
+ */
+export interface TranscriptWord {
+  text: string
+  /** Start of the word in the input audio (ms), if the provider reports it */
+  startMs?: number
+  /** End of the word in the input audio (ms), if the provider reports it */
+  endMs?: number
+  /** Recognition confidence (0-1), if the provider reports it */
+  confidence?: number
+}
+
+/**
+ * A partial or final transcript from a Speech-to-Text model.
+ */
+export interface TranscriptEvent {
+  /** The transcript text */
+  text: string
+  /**
+   * Whether this is the final transcript for the utterance.
+   * Partial transcripts may still change; each new partial replaces the last.
+   */
+  isFinal: boolean
+  /** Overall recognition confidence (0-1), if available */
+  confidence?: number
+  /** Word-level details, if available */
+  words?: TranscriptWord[]
+  /** Detected or configured language as reported by the provider (e.g. "en"), if available */
+  language?: string
+  /**
+   * Id of the utterance this transcript belongs to. Starts at 1 and increments
+   * after each final transcript, so partials and their final share an id.
+   */
+  turnId: number
+}
+
+/**
+ * Averages word confidences into an overall transcript confidence.
+ * @returns The mean confidence, or `undefined` if no word has one
+ */
+export function averageConfidence(words: TranscriptWord[]): number | undefined {
+  const scores = words.flatMap((word) => (word.confidence === undefined ? [] : [word.confidence]))
+  if (scores.length === 0) return undefined
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length
+}
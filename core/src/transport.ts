@@ -0,0 +1,528 @@
+/**
+ * Voice Transports
+ *
+ * A transport carries one call's audio and control messages between the user's
+ * device and the voice agent - a WebRTC data channel, a raw WebSocket, a phone
+ * line. Signaling code only has to produce a transport; `runVoiceSession()`
+ * connects it to a voice agent.
+ *
+ * Audio sent to the user is usually generated faster than it is played, so
+ * transports report playback progress through marks: `mark(name)` is answered
+ * by `onPlaybackMark` listeners once everything sent before it has played.
+ * Transports whose clients don't report playback estimate it from the audio
+ * format's byte rate.
+ */
+
+import { bytesPerSecond, type AudioFormat } from './audio-format.js'
+
+/**
+ * A JSON control message exchanged with the client (`clear-audio`,
+ * `call-ended`, application-specific messages, ...).
+ */
+export interface VoiceControlMessage {
+  type: string
+  [key: string]: unknown
+}
+
+/**
+ * Carries audio and control messages between a client and a voice agent.
+ */
+export interface VoiceTransport {
+  /**
+   * Format of the audio in both directions. `runVoiceSession()` converts to and
+   * from the agent's formats when they differ.
+   * @default the agent's formats (no conversion)
+   */
+  readonly audioFormat?: AudioFormat
+  /** Audio from the user. Ends when the transport closes. */
+  readonly input: ReadableStream<Buffer>
+  /** Whether the transport has been closed (by either side) */
+  readonly closed: boolean
+  /** Send audio to the user */
+  sendAudio(chunk: Buffer): void
+  /** Drop audio that was sent but hasn't been played yet (barge-in) */
+  clearPlayback(): void
+  /**
+   * Place a playback mark after the audio sent so far. It is reported to
+   * `onPlaybackMark` listeners once that audio has played (or was cleared).
+   */
+  mark(name: string): void
+  /** Subscribe to playback marks. Returns an unsubscribe function. */
+  onPlaybackMark(listener: (name: string) => void): () => void
+  /** Send a control message to the client */
+  sendControl(message: VoiceControlMessage): void
+  /** Subscribe to control messages from the client. Returns an unsubscribe function. */
+  onControl(listener: (message: VoiceControlMessage) => void): () => void
+  /** Subscribe to the transport closing. Returns an unsubscribe function. */
+  onClose(listener: (reason: string) => void): () => void
+  /** Close the transport and the connection underneath it */
+  close(reason?: string): void
+}
+
+export interface VoiceTransportOptions {
+  /**
+   * Format of the audio carried by the transport. Also used to estimate
+   * playback progress for clients that don't report it.
+   */
+  audioFormat?: AudioFormat
+}
+
+/**
+ * Base class for transports. Subclasses write audio and control messages to
+ * their connection and feed what they receive back through the protected
+ * `receive*` methods. Playback marks are estimated from the audio's byte rate
+ * unless a subclass overrides `mark()` and `clearPlayback()` with real client
+ * feedback.
+ */
+export abstract class BaseVoiceTransport implements VoiceTransport {
+  readonly audioFormat?: AudioFormat
+  readonly input: ReadableStream<Buffer>
+
+  #inputController: ReadableStreamDefaultController<Buffer> | null = null
+  #closed = false
+  /** Reason passed to `close()`, reported instead of the connection's own */
+  #closeReason: string | null = null
+
+  #markListeners: Array<(name: string) => void> = []
+  #controlListeners: Array<(message: VoiceControlMessage) => void> = []
+  #closeListeners: Array<(reason: string) => void> = []
+
+  /** When the audio sent so far will have finished playing (estimated) */
+  #playbackEndsAt = 0
+  readonly #markTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  constructor(options: VoiceTransportOptions = {}) {
+    this.audioFormat = options.audioFormat
+    this.input = new ReadableStream<Buffer>({
+      start: (controller) => {
+        this.#inputController = controller
+      },
+    })
+  }
+
+  get closed(): boolean {
+    return this.#closed
+  }
+
+  sendAudio(chunk: Buffer): void {
+    if (this.#closed || chunk.length === 0) return
+
+    const rate = this.audioFormat ? bytesPerSecond(this.audioFormat) : null
+    if (rate) {
+      this.#playbackEndsAt =
+        Math.max(this.#playbackEndsAt, Date.now()) + (chunk.length / rate) * 1000
+    }
+    this.writeAudio(chunk)
+  }
+
+  clearPlayback(): void {
+    this.#playbackEndsAt = 0
+    // Nothing is left to play, so every pending mark has been reached
+    for (const name of [...this.#markTimers.keys()]) {
+      this.#reachMark(name)
+    }
+  }
+
+  mark(name: string): void {
+    if (this.#closed) return
+    const delay = Math.max(0, this.#playbackEndsAt - Date.now())
+    this.#markTimers.set(
+      name,
+      setTimeout(() => this.#reachMark(name), delay)
+    )
+  }
+
+  onPlaybackMark(listener: (name: string) => void): () => void {
+    this.#markListeners.push(listener)
+    return () => {
+      this.#markListeners = this.#markListeners.filter((l) => l !== listener)
+    }
+  }
+
+  sendControl(message: VoiceControlMessage): void {
+    if (this.#closed) return
+    this.writeControl(message)
+  }
+
+  onControl(listener: (message: VoiceControlMessage) => void): () => void {
+    this.#controlListeners.push(listener)
+    return () => {
+      this.#controlListeners = this.#controlListeners.filter((l) => l !== listener)
+    }
+  }
+
+  onClose(listener: (reason: string) => void): () => void {
+    this.#closeListeners.push(listener)
+    return () => {
+      this.#closeListeners = this.#closeListeners.filter((l) => l !== listener)
+    }
+  }
+
+  close(reason = 'closed'): void {
+    if (this.#closed || this.#closeReason !== null) return
+    this.#closeReason = reason
+    this.disconnect(reason)
+    this.handleClosed(reason)
+  }
+
+  /** Write audio to the connection */
+  protected abstract writeAudio(chunk: Buffer): void
+
+  /** Write a control message to the connection */
+  protected abstract writeControl(message: VoiceControlMessage): void
+
+  /** Close the connection. Called once, before the transport is marked closed. */
+  protected abstract disconnect(reason: string): void
+
+  /**
+   * Feed audio received from the client into `input`.
+   */
+  protected receiveAudio(chunk: Buffer): void {
+    if (this.#closed) return
+    try {
+      this.#inputController?.enqueue(chunk)
+    } catch {
+      // Input already ended
+    }
+  }
+
+  /**
+   * End `input` without closing the transport (e.g. the client stopped sending).
+   */
+  protected endInput(): void {
+    try {
+      this.#inputController?.close()
+    } catch {
+      // Input already ended
+    }
+  }
+
+  /**
+   * Notify listeners of a control message from the client.
+   */
+  protected receiveControl(message: VoiceControlMessage): void {
+    if (this.#closed) return
+    for (const listener of this.#controlListeners) {
+      listener(message)
+    }
+  }
+
+  /**
+   * Notify listeners that a mark has been played.
+   */
+  protected notifyPlaybackMark(name: string): void {
+    for (const listener of this.#markListeners) {
+      listener(name)
+    }
+  }
+
+  /**
+   * Mark the transport closed - call when the connection closes on its own.
+   * Ends `input`, cancels pending marks and notifies close listeners.
+   */
+  protected handleClosed(reason: string): void {
+    if (this.#closed) return
+    this.#closed = true
+    const closeReason = this.#closeReason ?? reason
+
+    for (const timer of this.#markTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.#markTimers.clear()
+    this.endInput()
+
+    for (const listener of this.#closeListeners) {
+      listener(closeReason)
+    }
+  }
+
+  #reachMark(name: string): void {
+    clearTimeout(this.#markTimers.get(name))
+    this.#markTimers.delete(name)
+    this.notifyPlaybackMark(name)
+  }
+}
+
+/**
+ * Converts binary message data (`ArrayBuffer`, `Buffer`, typed arrays) to a Buffer.
+ */
+function toBuffer(data: unknown): Buffer | null {
+  if (Buffer.isBuffer(data)) return data
+  if (data instanceof ArrayBuffer) return Buffer.from(data)
+  if (ArrayBuffer.isView(data)) return Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+  return null
+}
+
+/**
+ * Parses a JSON control message, or returns `null` if it isn't one.
+ */
+function parseControlMessage(data: string): VoiceControlMessage | null {
+  try {
+    const message: unknown = JSON.parse(data)
+    if (
+      message &&
+      typeof message === 'object' &&
+      typeof (message as { type?: unknown }).type === 'string'
+    ) {
+      return message as VoiceControlMessage
+    }
+  } catch {
+    // Fall through
+  }
+  return null
+}
+
+/**
+ * Handles one message of the binary-audio / JSON-control framing shared by the
+ * data channel and WebSocket transports.
+ */
+function handleFramedMessage(
+  data: unknown,
+  onAudio: (chunk: Buffer) => void,
+  onControl: (message: VoiceControlMessage) => void,
+  logPrefix: string
+): void {
+  if (typeof data === 'string') {
+    const message = parseControlMessage(data)
+    if (message) {
+      onControl(message)
+    } else {
+      console.warn(`${logPrefix}: Ignoring malformed control message`)
+    }
+    return
+  }
+
+  const chunk = toBuffer(data)
+  if (chunk) {
+    onAudio(chunk)
+  }
+}
+
+/**
+ * The parts of an `RTCDataChannel` the transport needs (browser and
+ * `@roamhq/wrtc` channels fit).
+ */
+export interface DataChannelLike {
+  readonly readyState: string
+  send(data: string | Uint8Array): void
+  close(): void
+  onmessage: ((event: { data: unknown }) => void) | null
+  onclose: (() => void) | null
+}
+
+export interface DataChannelTransportOptions extends VoiceTransportOptions {
+  /**
+   * How long to keep the channel open after `call-ended` so the client
+   * receives it (ms).
+   * @default 500
+   */
+  closeDelayMs?: number
+}
+
+/**
+ * Transport over an open WebRTC data channel. Binary messages carry PCM audio
+ * in both directions; string messages are JSON control messages. Barge-in
+ * sends `{ type: "clear-audio" }` and closing sends
+ * `{ type: "call-ended", reason }` before the channel closes.
+ */
+export class DataChannelTransport extends BaseVoiceTransport {
+  readonly #channel: DataChannelLike
+  readonly #closeDelayMs: number
+
+  constructor(channel: DataChannelLike, options: DataChannelTransportOptions = {}) {
+    super(options)
+    this.#channel = channel
+    this.#closeDelayMs = options.closeDelayMs ?? 500
+
+    channel.onmessage = (event) => {
+      handleFramedMessage(
+        event.data,
+        (chunk) => this.receiveAudio(chunk),
+        (message) => this.receiveControl(message),
+        'DataChannel'
+      )
+    }
+    channel.onclose = () => this.handleClosed('data channel closed')
+  }
+
+  override clearPlayback(): void {
+    super.clearPlayback()
+    this.sendControl({ type: 'clear-audio' })
+  }
+
+  protected writeAudio(chunk: Buffer): void {
+    if (this.#channel.readyState === 'open') {
+      this.#channel.send(chunk)
+    }
+  }
+
+  protected writeControl(message: VoiceControlMessage): void {
+    if (this.#channel.readyState === 'open') {
+      this.#channel.send(JSON.stringify(message))
+    }
+  }
+
+  protected disconnect(reason: string): void {
+    this.writeControl({ type: 'call-ended', reason })
+    setTimeout(() => this.#channel.close(), this.#closeDelayMs)
+  }
+}
+
+/**
+ * The parts of a WebSocket the transport needs (`ws` sockets and Hono's
+ * `WSContext` fit).
+ */
+export interface WebSocketLike {
+  send(data: string | Uint8Array<ArrayBuffer>): void
+  close(code?: number, reason?: string): void
+}
+
+/**
+ * Transport over a raw WebSocket. Binary frames carry PCM audio in both
+ * directions; text frames are JSON control messages. The socket's owner
+ * passes incoming messages to `handleMessage()` and calls `handleClose()` when
+ * the socket closes.
+ */
+export class WebSocketTransport extends BaseVoiceTransport {
+  readonly #socket: WebSocketLike
+
+  constructor(socket: WebSocketLike, options: VoiceTransportOptions = {}) {
+    super(options)
+    this.#socket = socket
+  }
+
+  /**
+   * Handle a message from the socket: binary data is audio, strings are JSON
+   * control messages.
+   */
+  handleMessage(data: unknown): void {
+    handleFramedMessage(
+      data,
+      (chunk) => this.receiveAudio(chunk),
+      (message) => this.receiveControl(message),
+      'WebSocket'
+    )
+  }
+
+  /**
+   * Call when the socket has closed.
+   */
+  handleClose(reason = 'socket closed'): void {
+    this.handleClosed(reason)
+  }
+
+  override clearPlayback(): void {
+    super.clearPlayback()
+    this.sendControl({ type: 'clear-audio' })
+  }
+
+  protected writeAudio(chunk: Buffer): void {
+    this.#send(new Uint8Array(chunk))
+  }
+
+  protected writeControl(message: VoiceControlMessage): void {
+    this.#send(JSON.stringify(message))
+  }
+
+  protected disconnect(reason: string): void {
+    this.writeControl({ type: 'call-ended', reason })
+    try {
+      this.#socket.close(1000)
+    } catch {
+      // Already closed
+    }
+  }
+
+  #send(data: string | Uint8Array<ArrayBuffer>): void {
+    try {
+      this.#socket.send(data)
+    } catch (e) {
+      console.error('WebSocket: Failed to send message:', e)
+    }
+  }
+}
+
+export interface InMemoryTransportOptions extends VoiceTransportOptions {
+  /**
+   * Report marks when the audio would have finished playing in real time,
+   * instead of as soon as they are placed.
+   * @default false
+   */
+  realtimePlayback?: boolean
+}
+
+/**
+ * Transport that keeps everything in memory - for tests, scripts and
+ * server-side integrations. Push the user's audio with `pushAudio()` and read
+ * the agent's replies from `sentAudio`.
+ *
+ * @example
+ * ```ts
+ * const transport = new InMemoryTransport({ audioFormat: pcm16Format(16000) })
+ * const session = runVoiceSession(agent, transport)
+ * transport.pushAudio(recording)
+ * transport.endAudio()
+ * await session.ended
+ * const reply = Buffer.concat(transport.sentAudio)
+ * ```
+ */
+export class InMemoryTransport extends BaseVoiceTransport {
+  /** Audio sent to the user, in order */
+  readonly sentAudio: Buffer[] = []
+  /** Control messages sent to the user, in order */
+  readonly sentControl: VoiceControlMessage[] = []
+  /** Number of times playback was cleared */
+  clearCount = 0
+
+  readonly #realtimePlayback: boolean
+
+  constructor(options: InMemoryTransportOptions = {}) {
+    super(options)
+    this.#realtimePlayback = options.realtimePlayback ?? false
+  }
+
+  /** Send audio from the "user" */
+  pushAudio(chunk: Buffer): void {
+    this.receiveAudio(chunk)
+  }
+
+  /** End the user's audio (the transport stays open for replies) */
+  endAudio(): void {
+    this.endInput()
+  }
+
+  /** Send a control message from the "user" */
+  pushControl(message: VoiceControlMessage): void {
+    this.receiveControl(message)
+  }
+
+  /** Simulate the user hanging up */
+  hangUp(reason = 'remote hang up'): void {
+    this.handleClosed(reason)
+  }
+
+  override clearPlayback(): void {
+    this.clearCount++
+    super.clearPlayback()
+  }
+
+  override mark(name: string): void {
+    if (this.#realtimePlayback) {
+      super.mark(name)
+    } else if (!this.closed) {
+      queueMicrotask(() => this.notifyPlaybackMark(name))
+    }
+  }
+
+  protected writeAudio(chunk: Buffer): void {
+    this.sentAudio.push(chunk)
+  }
+
+  protected writeControl(message: VoiceControlMessage): void {
+    this.sentControl.push(message)
+  }
+
+  protected disconnect(): void {
+    // Nothing to close
+  }
+}
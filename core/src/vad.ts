@@ -4,10 +4,16 @@
  * Buffers audio until speech ends, then emits the complete utterance.
  * Useful for non-streaming STT providers like OpenAI Whisper.
  *
- * Note: This is a basic implementation. For production use,
- * consider using a proper VAD library like @ericedouard/vad-node-realtime.
+ * A short pre-roll of audio from before speech onset is kept so the first word
+ * isn't clipped, and long utterances are split so the buffer stays bounded.
+ *
+ * Speech detection is delegated to a `VoiceActivityDetector`. The default
+ * `EnergyVAD` is cheap but needs tuning; use `AdaptiveEnergyVAD` for varying
+ * noise levels or `SileroVAD` for the best accuracy.
  */
 
+import { EnergyVAD, pcm16ToSamples, type VoiceActivityDetector } from './voice-activity.js'
+
 /**
  * Options for the VAD buffer transform.
  */
@@ -18,6 +24,33 @@ export interface VADBufferOptions {
    */
   sampleRate?: number
 
+  /**
+   * Detector used to classify each frame.
+   * @default new EnergyVAD({ sampleRate })
+   */
+  detector?: VoiceActivityDetector
+
+  /**
+   * Audio kept from before speech onset, in milliseconds. Onset is only confirmed
+   * after `minSpeechFrames`, so those frames are always included on top of this.
+   * @default 300
+   */
+  preRollMs?: number
+
+  /**
+   * Silence in milliseconds after the last speech frame before the utterance
+   * ends. The trailing silence is included in the emitted audio.
+   * @default 320
+   */
+  hangoverMs?: number
+
+  /**
+   * Number of consecutive non-speech frames that end an utterance.
+   * Overrides `hangoverMs` when set.
+   * @deprecated Use `hangoverMs`
+   */
+  silenceFrames?: number
+
   /**
    * Minimum number of speech frames required to trigger output.
    * @default 4 (~0.125s at 32ms frames)
@@ -25,90 +58,157 @@ export interface VADBufferOptions {
   minSpeechFrames?: number
 
   /**
-   * Callback when speech ends and audio is emitted.
+   * Longest utterance in milliseconds. Longer speech is emitted in pieces of
+   * this length while the transform keeps listening.
+   * @default 30000
+   */
+  maxUtteranceMs?: number
+
+  /**
+   * Callback when speech is detected.
+   */
+  onSpeechStart?: () => void
+
+  /**
+   * Callback when speech ends (or an utterance is split) and audio is emitted.
    */
   onSpeechEnd?: (audioBuffer: Buffer) => void
 }
 
 /**
- * A simple energy-based VAD buffer transform.
+ * Something that reports when the user starts speaking. `createVoiceAgent` treats
+ * `beforeSTT` transforms with this shape like the STT model's speech start, so
+ * they can trigger barge-in.
+ */
+export interface SpeechStartSource {
+  addSpeechStartListener(listener: () => void): void
+  removeSpeechStartListener(listener: () => void): void
+}
+
+/**
+ * Checks whether a transform reports speech start.
+ */
+export function isSpeechStartSource<T>(value: T): value is T & SpeechStartSource {
+  const candidate = value as Partial<SpeechStartSource> | null
+  return (
+    typeof candidate?.addSpeechStartListener === 'function' &&
+    typeof candidate.removeSpeechStartListener === 'function'
+  )
+}
+
+/**
+ * A VAD buffer transform that emits one buffer per utterance.
  *
- * This implementation uses basic energy detection.
- * For better accuracy, use a proper VAD library.
+ * @example
+ * ```ts
+ * const vad = new VADBufferTransform({ preRollMs: 300, hangoverMs: 400 });
+ * vad.addSpeechStartListener(() => console.log("User started speaking"));
+ * ```
  */
-export class VADBufferTransform extends TransformStream<Buffer, Buffer> {
+export class VADBufferTransform
+  extends TransformStream<Buffer, Buffer>
+  implements SpeechStartSource
+{
+  readonly #speechStartListeners: Array<() => void> = []
+
   constructor(options: VADBufferOptions = {}) {
-    const { sampleRate = 16000, minSpeechFrames = 4, onSpeechEnd } = options
+    const {
+      sampleRate = 16000,
+      detector = new EnergyVAD({ sampleRate }),
+      preRollMs = 300,
+      hangoverMs = 320,
+      silenceFrames,
+      minSpeechFrames = 4,
+      maxUtteranceMs = 30000,
+      onSpeechStart,
+      onSpeechEnd,
+    } = options
 
-    // Frame size: 32ms worth of samples
-    const frameSizeMs = 32
-    const samplesPerFrame = Math.floor((sampleRate * frameSizeMs) / 1000)
-    const bytesPerFrame = samplesPerFrame * 2 // 16-bit audio = 2 bytes per sample
+    if (detector.sampleRate !== sampleRate) {
+      console.warn(
+        `VAD: Detector expects ${detector.sampleRate}Hz audio but input is ${sampleRate}Hz`
+      )
+    }
 
-    // Energy threshold for speech detection (tune as needed)
-    const energyThreshold = 500
+    // Frame size is dictated by the detector (16-bit audio = 2 bytes per sample)
+    const bytesPerFrame = detector.frameSamples * 2
+    const frameMs = (detector.frameSamples / sampleRate) * 1000
+    const toFrames = (ms: number) => Math.max(0, Math.ceil(ms / frameMs))
 
-    // Silence frames required to trigger end of speech
-    const silenceFramesThreshold = 10
+    const preRollFrames = toFrames(preRollMs) + minSpeechFrames
+    const silenceFramesThreshold = Math.max(1, silenceFrames ?? toFrames(hangoverMs))
+    const maxUtteranceFrames = Math.max(1, toFrames(maxUtteranceMs))
 
+    // Recent frames while not speaking, prepended to the utterance at onset
+    let preRoll: Buffer[] = []
     let audioBuffer: Buffer[] = []
     let speechFrameCount = 0
     let silenceFrameCount = 0
     let isSpeaking = false
     let pendingBytes = Buffer.alloc(0)
 
-    const calculateEnergy = (frame: Buffer): number => {
-      let sum = 0
-      for (let i = 0; i < frame.length - 1; i += 2) {
-        const sample = frame.readInt16LE(i)
-        sum += Math.abs(sample)
-      }
-      return sum / (frame.length / 2)
+    // Callback to notify speech start listeners (assigned after super())
+    let notifySpeechStartCallback = () => {}
+
+    const emitUtterance = (
+      controller: TransformStreamDefaultController<Buffer>,
+      reason: string
+    ) => {
+      const completeAudio = Buffer.concat(audioBuffer)
+      audioBuffer = []
+      console.log(`VAD: ${reason} (${completeAudio.length} bytes)`)
+
+      onSpeechEnd?.(completeAudio)
+      controller.enqueue(completeAudio)
     }
 
-    const processFrame = (frame: Buffer, controller: TransformStreamDefaultController<Buffer>) => {
-      const energy = calculateEnergy(frame)
-      const isSpeech = energy > energyThreshold
+    const processFrame = async (
+      frame: Buffer,
+      controller: TransformStreamDefaultController<Buffer>
+    ) => {
+      const probability = await detector.process(pcm16ToSamples(frame))
+      const isSpeech = probability > detector.threshold
 
-      if (isSpeech) {
-        silenceFrameCount = 0
-        speechFrameCount++
+      if (!isSpeaking) {
+        // Frames are views into the incoming chunk, so copy before keeping them
+        preRoll.push(Buffer.from(frame))
+        if (preRoll.length > preRollFrames) preRoll.shift()
 
-        if (!isSpeaking && speechFrameCount >= minSpeechFrames) {
-          isSpeaking = true
-          console.log('VAD: Speech started')
-        }
+        speechFrameCount = isSpeech ? speechFrameCount + 1 : 0
+        if (speechFrameCount < minSpeechFrames) return
 
-        if (isSpeaking) {
-          audioBuffer.push(frame)
-        }
+        isSpeaking = true
+        silenceFrameCount = 0
+        audioBuffer = preRoll
+        preRoll = []
+        console.log('VAD: Speech started')
+        notifySpeechStartCallback()
       } else {
-        if (isSpeaking) {
-          silenceFrameCount++
-          audioBuffer.push(frame) // Include some trailing silence
-
-          if (silenceFrameCount >= silenceFramesThreshold) {
-            // Speech ended, emit the buffer
-            const completeAudio = Buffer.concat(audioBuffer)
-            console.log(`VAD: Speech ended (${completeAudio.length} bytes)`)
-
-            onSpeechEnd?.(completeAudio)
-            controller.enqueue(completeAudio)
-
-            // Reset state
-            audioBuffer = []
-            speechFrameCount = 0
-            silenceFrameCount = 0
-            isSpeaking = false
-          }
-        } else {
+        audioBuffer.push(Buffer.from(frame))
+
+        if (isSpeech) {
+          silenceFrameCount = 0
+        } else if (++silenceFrameCount >= silenceFramesThreshold) {
+          emitUtterance(controller, 'Speech ended')
           speechFrameCount = 0
+          silenceFrameCount = 0
+          isSpeaking = false
+          return
         }
       }
+
+      if (audioBuffer.length >= maxUtteranceFrames) {
+        // Keep listening - the rest of the speech becomes the next utterance
+        emitUtterance(controller, 'Maximum utterance length reached, splitting')
+      }
     }
 
     super({
-      transform(chunk, controller) {
+      start() {
+        detector.reset()
+      },
+
+      async transform(chunk, controller) {
         // Combine pending bytes with new chunk
         const combined = Buffer.concat([pendingBytes, chunk])
 
@@ -116,7 +216,7 @@ export class VADBufferTransform extends TransformStream<Buffer, Buffer> {
         let offset = 0
         while (offset + bytesPerFrame <= combined.length) {
           const frame = combined.subarray(offset, offset + bytesPerFrame)
-          processFrame(frame, controller)
+          await processFrame(frame, controller)
           offset += bytesPerFrame
         }
 
@@ -127,12 +227,36 @@ export class VADBufferTransform extends TransformStream<Buffer, Buffer> {
       flush(controller) {
         // Emit any remaining speech
         if (isSpeaking && audioBuffer.length > 0) {
-          const completeAudio = Buffer.concat(audioBuffer)
-          console.log(`VAD: Flushing remaining speech (${completeAudio.length} bytes)`)
-          onSpeechEnd?.(completeAudio)
-          controller.enqueue(completeAudio)
+          emitUtterance(controller, 'Flushing remaining speech')
         }
       },
     })
+
+    if (onSpeechStart) {
+      this.#speechStartListeners.push(onSpeechStart)
+    }
+    notifySpeechStartCallback = () => {
+      for (const listener of this.#speechStartListeners) {
+        listener()
+      }
+    }
+  }
+
+  /**
+   * Add a listener for when speech starts.
+   * Multiple listeners can be registered; all will be called.
+   */
+  addSpeechStartListener(listener: () => void): void {
+    this.#speechStartListeners.push(listener)
+  }
+
+  /**
+   * Remove a speech start listener.
+   */
+  removeSpeechStartListener(listener: () => void): void {
+    const index = this.#speechStartListeners.indexOf(listener)
+    if (index > -1) {
+      this.#speechStartListeners.splice(index, 1)
+    }
   }
 }
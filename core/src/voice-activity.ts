@@ -0,0 +1,204 @@
+/**
+ * Voice Activity Detectors
+ *
+ * A voice activity detector (VAD) looks at one short frame of PCM audio at a time
+ * and returns the probability that it contains speech. Anything that segments
+ * audio into utterances (`VADBufferTransform`, non-streaming STT providers) takes
+ * a detector instance, so the detection strategy can be swapped without touching
+ * the buffering logic.
+ */
+
+/**
+ * Frame-level speech detector.
+ */
+export interface VoiceActivityDetector {
+  /** Sample rate of the audio the detector expects */
+  readonly sampleRate: number
+  /** Number of samples in each frame passed to `process()` */
+  readonly frameSamples: number
+  /** Probability above which a frame counts as speech */
+  readonly threshold: number
+  /**
+   * Returns the probability (0-1) that the frame contains speech.
+   * @param frame - `frameSamples` 16-bit PCM samples
+   */
+  process(frame: Int16Array): number | Promise<number>
+  /** Forget any state carried between frames (e.g. at the start of a new stream) */
+  reset(): void
+}
+
+/**
+ * Converts a 16-bit little-endian PCM buffer to samples.
+ */
+export function pcm16ToSamples(buffer: Buffer): Int16Array {
+  const samples = new Int16Array(Math.floor(buffer.length / 2))
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = buffer.readInt16LE(i * 2)
+  }
+  return samples
+}
+
+/**
+ * Number of samples in a 32ms frame, the frame size all built-in detectors use.
+ */
+function samplesPer32ms(sampleRate: number): number {
+  return Math.floor((sampleRate * 32) / 1000)
+}
+
+/**
+ * Options for the energy-based detector.
+ */
+export interface EnergyVADOptions {
+  /**
+   * Sample rate of input audio.
+   * @default 16000
+   */
+  sampleRate?: number
+
+  /**
+   * Mean absolute sample value above which a frame counts as speech.
+   * @default 500
+   */
+  energyThreshold?: number
+}
+
+/**
+ * Fixed-threshold energy detector.
+ *
+ * A frame is speech when its mean absolute amplitude exceeds `energyThreshold`.
+ * This is the detector the voice pipeline has always used; it is cheap but needs
+ * tuning per microphone and room.
+ */
+export class EnergyVAD implements VoiceActivityDetector {
+  readonly sampleRate: number
+  readonly frameSamples: number
+  readonly threshold = 0.5
+  readonly #energyThreshold: number
+
+  constructor(options: EnergyVADOptions = {}) {
+    const { sampleRate = 16000, energyThreshold = 500 } = options
+    this.sampleRate = sampleRate
+    this.frameSamples = samplesPer32ms(sampleRate)
+    this.#energyThreshold = energyThreshold
+  }
+
+  process(frame: Int16Array): number {
+    let sum = 0
+    for (const sample of frame) {
+      sum += Math.abs(sample)
+    }
+    const energy = frame.length > 0 ? sum / frame.length : 0
+
+    // Maps the energy threshold to a probability of exactly 0.5
+    return Math.min(1, energy / (2 * this.#energyThreshold))
+  }
+
+  reset(): void {}
+}
+
+/**
+ * Options for the adaptive noise-floor detector.
+ */
+export interface AdaptiveEnergyVADOptions {
+  /**
+   * Sample rate of input audio.
+   * @default 16000
+   */
+  sampleRate?: number
+
+  /**
+   * Signal-to-noise ratio (dB) at which a frame has a 50% speech probability.
+   * @default 9
+   */
+  snrThresholdDb?: number
+
+  /**
+   * How quickly the noise floor follows louder background noise (0-1 per frame).
+   * @default 0.02
+   */
+  noiseAdaptRate?: number
+
+  /**
+   * Lowest noise floor in dBFS, so digital silence doesn't make every sound speech.
+   * @default -70
+   */
+  minNoiseFloorDb?: number
+}
+
+/**
+ * Adaptive noise-floor detector (in the spirit of WebRTC's VAD).
+ *
+ * Tracks the background level and scores each frame by how far it rises above it,
+ * so the same settings work for quiet headsets and noisy phone calls. The noise
+ * floor drops immediately to quieter frames and rises slowly during non-speech,
+ * so it doesn't adapt to the user's own voice.
+ */
+export class AdaptiveEnergyVAD implements VoiceActivityDetector {
+  readonly sampleRate: number
+  readonly frameSamples: number
+  readonly threshold = 0.5
+  readonly #snrThresholdDb: number
+  readonly #noiseAdaptRate: number
+  readonly #minNoiseFloorDb: number
+  #noiseFloorDb: number | null = null
+
+  constructor(options: AdaptiveEnergyVADOptions = {}) {
+    const {
+      sampleRate = 16000,
+      snrThresholdDb = 9,
+      noiseAdaptRate = 0.02,
+      minNoiseFloorDb = -70,
+    } = options
+    this.sampleRate = sampleRate
+    this.frameSamples = samplesPer32ms(sampleRate)
+    this.#snrThresholdDb = snrThresholdDb
+    this.#noiseAdaptRate = noiseAdaptRate
+    this.#minNoiseFloorDb = minNoiseFloorDb
+  }
+
+  /**
+   * Current estimate of the background level in dBFS.
+   */
+  get noiseFloorDb(): number | null {
+    return this.#noiseFloorDb
+  }
+
+  process(frame: Int16Array): number {
+    const levelDb = rmsDb(frame)
+
+    if (this.#noiseFloorDb === null) {
+      this.#noiseFloorDb = Math.max(levelDb, this.#minNoiseFloorDb)
+    }
+
+    const snrDb = levelDb - this.#noiseFloorDb
+    // Logistic curve: 50% at the threshold, ~90% four dB above it
+    const probability = 1 / (1 + Math.exp(-(snrDb - this.#snrThresholdDb) / 2))
+
+    if (levelDb < this.#noiseFloorDb) {
+      this.#noiseFloorDb = Math.max(levelDb, this.#minNoiseFloorDb)
+    } else if (probability < this.threshold) {
+      this.#noiseFloorDb += (levelDb - this.#noiseFloorDb) * this.#noiseAdaptRate
+    }
+
+    return probability
+  }
+
+  reset(): void {
+    this.#noiseFloorDb = null
+  }
+}
+
+/**
+ * RMS level of a frame in dBFS.
+ */
+function rmsDb(frame: Int16Array): number {
+  if (frame.length === 0) return -Infinity
+
+  let sumSquares = 0
+  for (const sample of frame) {
+    const normalized = sample / 32768
+    sumSquares += normalized * normalized
+  }
+  const rms = Math.sqrt(sumSquares / frame.length)
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity
+}
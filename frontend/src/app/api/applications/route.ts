@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/server";
+
+const AGENT_URL = process.env.LANGGRAPH_DEPLOYMENT_URL || "http://localhost:8123";
+const AGENT_API_KEY = process.env.AGENT_API_KEY;
+
+// GET endpoint for the signed-in user's application summary (dashboard card)
+export async function GET() {
+  const { data: session } = await auth.getSession();
+  const user = session?.user;
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  if (!AGENT_API_KEY) {
+    console.error("Applications API error: AGENT_API_KEY is not set");
+    return NextResponse.json({ error: "AGENT_API_KEY is not set" }, { status: 500 });
+  }
+
+  try {
+    const response = await fetch(
+      `${AGENT_URL}/users/${encodeURIComponent(user.id)}/applications/summary`,
+      {
+        headers: { Authorization: `Bearer ${AGENT_API_KEY}` },
+        cache: "no-store",
+      }
+    );
+    return NextResponse.json(await response.json(), { status: response.status });
+  } catch (error) {
+    console.error("Applications API error:", error);
+    return NextResponse.json({ error: String(error) }, { status: 502 });
+  }
+}
@@ -24,11 +24,14 @@ export const POST = async (req: NextRequest) => {
     const { user } = await auth.validateRequest(req);
     const requestBody = await req.json();
 
+    // The agent's profile and application tools act on this userId, so only
+    // ever take it from the session, never from the client
+    requestBody.state = requestBody.state || {};
+    requestBody.state.userProfile = requestBody.state.userProfile || {};
     if (user) {
-      // Inject userId into the LangGraph agent's state
-      requestBody.state = requestBody.state || {};
-      requestBody.state.userProfile = requestBody.state.userProfile || {};
       requestBody.state.userProfile.userId = user.id;
+    } else {
+      delete requestBody.state.userProfile.userId;
     }
 
     return await runtime.response(requestBody, serviceAdapter);
@@ -1,11 +1,45 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { CopilotSidebar } from "@copilotkit/react-ui";
 import { authClient } from "@/lib/auth/client";
 import { redirect } from "next/navigation";
 
+type ApplicationStatus = "draft" | "submitted" | "interviewing" | "offer" | "rejected";
+
+interface Application {
+  id: string;
+  jobTitle: string;
+  company: string;
+  status: ApplicationStatus;
+  followUpOn?: string;
+}
+
+// From the agent's GET /users/:userId/applications/summary
+interface ApplicationSummary {
+  counts: Record<ApplicationStatus, number>;
+  followUpsDue: Application[];
+  recent: Application[];
+}
+
+const PIPELINE: { status: ApplicationStatus; label: string }[] = [
+  { status: "draft", label: "Drafts" },
+  { status: "submitted", label: "Submitted" },
+  { status: "interviewing", label: "Interviewing" },
+  { status: "offer", label: "Offers" },
+];
+
 export default function DashboardPage() {
   const { data: session, isPending } = authClient.useSession();
+  const [applications, setApplications] = useState<ApplicationSummary | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    fetch("/api/applications")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setApplications)
+      .catch((error) => console.error("Failed to load applications:", error));
+  }, [session]);
 
   if (isPending) {
     return (
@@ -52,6 +86,42 @@ export default function DashboardPage() {
               <p className="text-gray-600 mb-4">
                 View jobs that match your profile and preferences.
               </p>
+              {applications && (
+                <div className="mb-4">
+                  <div className="grid grid-cols-4 gap-2 text-center mb-3">
+                    {PIPELINE.map(({ status, label }) => (
+                      <div key={status} className="bg-gray-50 rounded p-2">
+                        <p className="text-xl font-semibold">{applications.counts[status]}</p>
+                        <p className="text-xs text-gray-500">{label}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {applications.followUpsDue.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded p-3 mb-3">
+                      <p className="text-sm font-semibold mb-1">Time to follow up</p>
+                      <ul className="text-sm text-gray-700">
+                        {applications.followUpsDue.map((application) => (
+                          <li key={application.id}>
+                            {application.jobTitle} at {application.company}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {applications.recent.length > 0 && (
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      {applications.recent.map((application) => (
+                        <li key={application.id} className="flex justify-between gap-2">
+                          <span className="truncate">
+                            {application.jobTitle} at {application.company}
+                          </span>
+                          <span className="text-gray-500 capitalize">{application.status}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
               <a href="/jobs" className="text-blue-600 hover:underline">
                 View Jobs →
               </a>
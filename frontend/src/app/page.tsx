@@ -16,22 +16,72 @@ try {
   // v2 API not available, HITL will use fallback
 }
 
+/**
+ * Structured answer to a confirmation. The agent's confirmation helper takes
+ * these as-is, so a button press never needs the spoken confirmation phrase.
+ */
+type ConfirmationResponse = {
+  decision: "confirm" | "deny" | "amend";
+  corrections?: Record<string, unknown>;
+};
+
+/**
+ * Confirmation request sent by the agent's interrupts (see agent/src/interrupts.ts)
+ */
+type ConfirmationInterrupt = {
+  kind: "soft" | "hard";
+  action: string;
+  summary: string;
+  fields: { name: string; label: string; value: string }[];
+  options: { decision: ConfirmationResponse["decision"]; label: string }[];
+  spokenPrompt: string;
+};
+
+/**
+ * Reads an interrupt value from a CopilotKit `on_interrupt` event.
+ * CopilotKit sends non-string values JSON-encoded; plain strings are shown as a
+ * soft confirmation.
+ */
+function parseInterrupt(value: unknown): ConfirmationInterrupt {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = value;
+    }
+  }
+
+  if (parsed && typeof parsed === "object" && "summary" in parsed && "options" in parsed) {
+    return parsed as ConfirmationInterrupt;
+  }
+
+  const message = String(parsed);
+  return {
+    kind: "soft",
+    action: "unknown",
+    summary: message,
+    fields: [],
+    options: [
+      { decision: "confirm", label: "Confirm" },
+      { decision: "deny", label: "Cancel" },
+    ],
+    spokenPrompt: message,
+  };
+}
+
 /**
  * HITL (Human-in-the-Loop) Confirmation Handler
- * Displays pill buttons when the LangGraph agent requests confirmation
+ * Displays the action's details and pill buttons when the LangGraph agent requests confirmation
  */
 function HITLConfirmation({
-  message,
-  onConfirm,
-  onCancel,
-  type = "soft",
+  interrupt,
+  onRespond,
 }: {
-  message: string;
-  onConfirm: () => void;
-  onCancel: () => void;
-  type?: "soft" | "hard";
+  interrupt: ConfirmationInterrupt;
+  onRespond: (response: ConfirmationResponse) => void;
 }) {
-  const isHard = type === "hard";
+  const isHard = interrupt.kind === "hard";
 
   return (
     <div className="fixed bottom-24 left-1/2 transform -translate-x-1/2 z-50 animate-in slide-in-from-bottom-4">
@@ -53,27 +103,36 @@ function HITLConfirmation({
             <span className="font-semibold text-sm">Action Required</span>
           </div>
         )}
-        <p className="text-gray-700 mb-4 whitespace-pre-line">{message}</p>
+        <p className="text-gray-700 font-medium mb-3">{interrupt.summary}</p>
+        {interrupt.fields.length > 0 && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm mb-4">
+            {interrupt.fields.map((field) => (
+              <div key={field.name} className="contents">
+                <dt className="text-gray-500">{field.label}</dt>
+                <dd className="text-gray-800">{field.value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
         <div className="flex gap-3 justify-center">
-          <button
-            onClick={onConfirm}
-            className={`
-              px-5 py-2 rounded-full font-medium transition-all
-              ${
-                isHard
-                  ? "bg-amber-500 hover:bg-amber-600 text-white"
-                  : "bg-green-500 hover:bg-green-600 text-white"
-              }
-            `}
-          >
-            {isHard ? "Yes, Proceed" : "Confirm"}
-          </button>
-          <button
-            onClick={onCancel}
-            className="px-5 py-2 rounded-full font-medium bg-gray-200 hover:bg-gray-300 text-gray-700 transition-all"
-          >
-            Cancel
-          </button>
+          {interrupt.options.map((option) => (
+            <button
+              key={`${option.decision}-${option.label}`}
+              onClick={() => onRespond({ decision: option.decision })}
+              className={`
+                px-5 py-2 rounded-full font-medium transition-all
+                ${
+                  option.decision !== "confirm"
+                    ? "bg-gray-200 hover:bg-gray-300 text-gray-700"
+                    : isHard
+                      ? "bg-amber-500 hover:bg-amber-600 text-white"
+                      : "bg-green-500 hover:bg-green-600 text-white"
+                }
+              `}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
       </div>
     </div>
@@ -84,10 +143,7 @@ function HITLConfirmation({
  * Hook to handle HITL interrupts from LangGraph agent
  */
 function useHITLHandler() {
-  const [interrupt, setInterrupt] = useState<{
-    message: string;
-    type: "soft" | "hard";
-  } | null>(null);
+  const [interrupt, setInterrupt] = useState<ConfirmationInterrupt | null>(null);
 
   // Try to use the v2 agent API if available
   const agentHook = useAgent ? useAgent() : null;
@@ -97,17 +153,9 @@ function useHITLHandler() {
     if (!agent) return;
 
     const subscriber = {
-      onCustomEvent: ({ event }: { event: { name: string; value: string } }) => {
+      onCustomEvent: ({ event }: { event: { name: string; value: unknown } }) => {
         if (event.name === "on_interrupt") {
-          // Determine if this is a hard or soft confirmation
-          const isHard =
-            event.value.toLowerCase().includes("important") ||
-            event.value.toLowerCase().includes("submit") ||
-            event.value.toLowerCase().includes("apply");
-          setInterrupt({
-            message: event.value,
-            type: isHard ? "hard" : "soft",
-          });
+          setInterrupt(parseInterrupt(event.value));
         }
       },
     };
@@ -117,7 +165,7 @@ function useHITLHandler() {
   }, [agent]);
 
   const handleResponse = useCallback(
-    (response: string) => {
+    (response: ConfirmationResponse) => {
       if (agent) {
         agent.runAgent({
           forwardedProps: {
@@ -256,12 +304,7 @@ When users share career information (skills, experience, goals, preferences), us
     <div className="min-h-screen flex">
       {/* HITL Confirmation Modal */}
       {interrupt && (
-        <HITLConfirmation
-          message={interrupt.message}
-          type={interrupt.type}
-          onConfirm={() => handleResponse("yes")}
-          onCancel={() => handleResponse("no")}
-        />
+        <HITLConfirmation interrupt={interrupt} onRespond={handleResponse} />
       )}
 
       {/* Main Content */}
@@ -3,7 +3,7 @@ import { ElevenLabsTextToSpeech } from '@create-voice-agent/elevenlabs'
 import { HumeTextToSpeech } from '@create-voice-agent/hume'
 import { OpenAISpeechToText, OpenAITextToSpeech } from '@create-voice-agent/openai'
 import { MemorySaver } from '@langchain/langgraph'
-import { createVoiceAgent } from 'create-voice-agent'
+import { createVoiceAgent, type VoiceAgent } from 'create-voice-agent'
 
 import { LangGraphModel } from './langgraph-model.js'
 import { createFillerMiddleware } from './middleware.js'
@@ -34,8 +34,6 @@ IMPORTANT: Call the hang_up tool when:
 - The user says "that's all", "bye", "thank you", etc.
 `
 
-let pendingHangUp: string | null = null
-
 // Provider type definitions
 export type STTProvider = 'assemblyai' | 'openai'
 export type TTSProvider = 'elevenlabs' | 'hume' | 'openai'
@@ -45,8 +43,38 @@ export interface ProviderConfig {
   ttsProvider: TTSProvider
 }
 
+export const DEFAULT_PROVIDERS: ProviderConfig = {
+  sttProvider: 'assemblyai',
+  ttsProvider: 'elevenlabs',
+}
+
+/**
+ * Per-call settings a client can choose before the call starts.
+ */
+export interface CallConfig extends ProviderConfig {
+  userName?: string
+}
+
+/**
+ * Applies a client's configuration message (`configure-providers` on the
+ * signaling socket, `configure` on the audio socket) to a call's settings.
+ * Fields the message doesn't set are kept.
+ */
+export function applyCallConfig(config: CallConfig, message: Record<string, unknown>): CallConfig {
+  const next = { ...config }
+  if (message.sttProvider) {
+    next.sttProvider = message.sttProvider as STTProvider
+  }
+  if (message.ttsProvider) {
+    next.ttsProvider = message.ttsProvider as TTSProvider
+  }
+  if (message.userName) {
+    next.userName = message.userName as string
+  }
+  return next
+}
+
 interface CreateVoiceAgentParams {
-  closeConnection?: (reason: string) => void
   /** Additional callback to run when speech starts (for barge-in handling). */
   onSpeechStart?: () => void
   /** Provider configuration */
@@ -144,14 +172,17 @@ export function getAvailableProviders(): {
   }
 }
 
+/**
+ * The greeting spoken when a call starts
+ */
+export function getGreeting(userName?: string): string {
+  return userName
+    ? `Hi ${userName}! I'm your career coach. How can I help you with your career today?`
+    : "Hi there! I'm your career coach. How can I help you with your career today?"
+}
+
 export function createCareerCoachVoiceAgent(params: CreateVoiceAgentParams) {
-  const {
-    closeConnection,
-    onSpeechStart,
-    providers = { sttProvider: 'assemblyai', ttsProvider: 'elevenlabs' },
-    userName,
-    threadId,
-  } = params
+  const { onSpeechStart, providers = DEFAULT_PROVIDERS, userName, threadId } = params
 
   console.log(
     `Creating voice agent with STT: ${
@@ -162,30 +193,82 @@ export function createCareerCoachVoiceAgent(params: CreateVoiceAgentParams) {
   )
 
   const stt = createSTTProvider(providers.sttProvider, onSpeechStart)
-  const tts = createTTSProvider(providers.ttsProvider, () => {
-    if (pendingHangUp && closeConnection) {
-      closeConnection(pendingHangUp)
-      pendingHangUp = null
-    }
-  })
+  const tts = createTTSProvider(providers.ttsProvider)
 
-  return createVoiceAgent({
-    // LangChain agent configuration
-    model: new LangGraphModel(threadId),
-    checkpointer: new MemorySaver(),
-
-    // Voice configuration
+  const voiceOptions = {
     stt,
     tts,
     middleware: [createFillerMiddleware()],
+    bargeIn: { mode: 'immediate' as const },
+  }
+
+  // With LANGGRAPH_GRAPH_ID set, run the careers coach graph on its LangGraph
+  // deployment (`langgraph dev` in agent/); otherwise go through the agent
+  // server's /stream endpoint
+  const graphId = process.env.LANGGRAPH_GRAPH_ID
+  let model: LangGraphModel | null = null
+  let voiceAgent: VoiceAgent
+
+  if (graphId) {
+    voiceAgent = createVoiceAgent({
+      ...voiceOptions,
+      graph: { url: process.env.LANGGRAPH_DEPLOYMENT_URL || 'http://localhost:8123', graphId },
+      threadId,
+      hangUpTools: ['end_conversation'],
+    })
+  } else {
+    model = new LangGraphModel({
+      threadId,
+      userProfile: userName ? { name: userName } : undefined,
+    })
+    voiceAgent = createVoiceAgent({
+      ...voiceOptions,
+      model,
+      checkpointer: new MemorySaver(),
+    })
+  }
+
+  voiceAgent.on('transcript_final', ({ turnId, text }) => {
+    console.log(`[VoiceAgent] Turn ${turnId} transcript: "${text}"`)
+  })
+  voiceAgent.on('interrupt', ({ value }) => {
+    console.log('[VoiceAgent] Interrupt:', value)
+  })
+  voiceAgent.on('hang_up', ({ reason }) => {
+    console.log('[VoiceAgent] Hang up requested:', reason)
+  })
+  voiceAgent.on('error', ({ turnId, error }) => {
+    console.error(`[VoiceAgent] Turn ${turnId} failed:`, error)
+  })
 
-    // Callbacks
-    onInterrupt: (value: unknown) => {
-      console.log('[VoiceAgent] Interrupt:', value)
-    },
-    onHangUp: (reason: string) => {
-      console.log('[VoiceAgent] Hang up requested:', reason)
-      pendingHangUp = reason
-    },
+  // The remote graph runs its tools and interrupts itself - report them as the agent's own
+  let remoteToolCalls = 0
+  const openToolCalls = new Map<string, string[]>()
+  model?.onEvent((event) => {
+    const base = { turnId: voiceAgent.turnId, timestamp: Date.now() }
+    switch (event.type) {
+      case 'tool_start': {
+        const id = `remote-${++remoteToolCalls}`
+        openToolCalls.set(event.name, [...(openToolCalls.get(event.name) ?? []), id])
+        voiceAgent.events.emit('tool_call', { ...base, id, name: event.name, args: {} })
+        break
+      }
+      case 'tool_end': {
+        const [id = `remote-${++remoteToolCalls}`, ...rest] = openToolCalls.get(event.name) ?? []
+        openToolCalls.set(event.name, rest)
+        voiceAgent.events.emit('tool_result', {
+          ...base,
+          toolCallId: id,
+          name: event.name,
+          content: event.output,
+        })
+        break
+      }
+      case 'interrupt':
+        voiceAgent.events.emit('interrupt', { ...base, value: event.value })
+        break
+    }
   })
+
+  return voiceAgent
 }
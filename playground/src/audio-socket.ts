@@ -0,0 +1,194 @@
+/**
+ * Plain WebSocket audio endpoint
+ *
+ * For clients that can't run WebRTC (mobile apps, embedded devices). Audio
+ * travels as binary frames of 16-bit mono PCM in both directions; everything
+ * else is a JSON text frame.
+ *
+ * Client → server:
+ * - binary: microphone audio at the configured sample rate (default 16kHz)
+ * - `{ type: "configure", sttProvider?, ttsProvider?, userName?, sampleRate? }`:
+ *   starts the call (optional - the first audio frame starts it with defaults)
+ * - `{ type: "interrupt" }`: cut the agent's current reply short
+ * - `{ type: "end" }`: hang up
+ *
+ * Server → client:
+ * - binary: the agent's speech, in the same format as the microphone audio
+ * - `{ type: "configured", providers, userName, sampleRate }`
+ * - `{ type: "transcript", text, final }`: what the user is saying
+ * - `{ type: "agent_text", text }`: the agent's reply as it is generated
+ * - `{ type: "clear-audio" }`: drop buffered playback (barge-in)
+ * - `{ type: "call-ended", reason }`
+ * - `{ type: "error", message }`
+ */
+
+import {
+  pcm16Format,
+  WebSocketTransport,
+  type VoiceControlMessage,
+  type VoiceSession,
+  type WebSocketLike,
+} from 'create-voice-agent'
+
+import { applyCallConfig, DEFAULT_PROVIDERS, getGreeting, type CallConfig } from './agent.js'
+import type { VoiceSessionManager } from './sessions.js'
+
+const DEFAULT_SAMPLE_RATE = 16000
+const MIN_SAMPLE_RATE = 8000
+const MAX_SAMPLE_RATE = 48000
+
+/**
+ * One call over the audio WebSocket. The voice session starts on `configure`
+ * or the first audio frame, whichever comes first.
+ */
+export class AudioSocketCall {
+  readonly #socket: WebSocketLike
+  readonly #sessions: VoiceSessionManager
+  #config: CallConfig = { ...DEFAULT_PROVIDERS }
+  #sampleRate = DEFAULT_SAMPLE_RATE
+  #transport: WebSocketTransport | null = null
+  #session: VoiceSession | null = null
+
+  constructor(socket: WebSocketLike, sessions: VoiceSessionManager) {
+    this.#socket = socket
+    this.#sessions = sessions
+  }
+
+  /**
+   * Handle a message from the socket: binary audio or a JSON control message.
+   */
+  handleMessage(data: unknown): void {
+    if (this.#transport) {
+      this.#transport.handleMessage(data)
+      return
+    }
+
+    if (typeof data === 'string') {
+      this.#handleSetupMessage(data)
+      return
+    }
+
+    // Audio before `configure`: start with the defaults
+    this.#start().handleMessage(data)
+  }
+
+  /**
+   * Call when the socket has closed.
+   */
+  handleClose(): void {
+    this.#transport?.handleClose()
+  }
+
+  /**
+   * Handles control messages that arrive before the call has started.
+   */
+  #handleSetupMessage(data: string): void {
+    let message: VoiceControlMessage | null = null
+    try {
+      message = JSON.parse(data) as VoiceControlMessage | null
+    } catch {
+      // Reported below
+    }
+    if (typeof message?.type !== 'string') {
+      this.#sendError('Malformed control message')
+      return
+    }
+
+    switch (message.type) {
+      case 'configure': {
+        const sampleRate = message.sampleRate ?? DEFAULT_SAMPLE_RATE
+        if (
+          typeof sampleRate !== 'number' ||
+          !Number.isInteger(sampleRate) ||
+          sampleRate < MIN_SAMPLE_RATE ||
+          sampleRate > MAX_SAMPLE_RATE
+        ) {
+          this.#sendError(
+            `sampleRate must be an integer between ${MIN_SAMPLE_RATE} and ${MAX_SAMPLE_RATE}`
+          )
+          return
+        }
+
+        console.log('Audio socket: Configuring call:', message)
+        this.#config = applyCallConfig(this.#config, message)
+        this.#sampleRate = sampleRate
+        this.#start()
+        break
+      }
+      case 'end':
+        this.#socket.close(1000)
+        break
+      default:
+        // Nothing to interrupt yet
+        break
+    }
+  }
+
+  #start(): WebSocketTransport {
+    const { sttProvider, ttsProvider, userName } = this.#config
+    const transport = new WebSocketTransport(this.#socket, {
+      audioFormat: pcm16Format(this.#sampleRate),
+    })
+    this.#transport = transport
+
+    transport.sendControl({
+      type: 'configured',
+      providers: { sttProvider, ttsProvider },
+      userName,
+      sampleRate: this.#sampleRate,
+    })
+
+    transport.onControl((message) => this.#handleControlMessage(message))
+
+    const session = this.#sessions.start(transport, { channel: 'websocket', config: this.#config })
+    this.#session = session
+    if (!session) return transport
+
+    const { agent } = session
+    agent.on('transcript_partial', ({ text }) => {
+      transport.sendControl({ type: 'transcript', text, final: false })
+    })
+    agent.on('transcript_final', ({ text }) => {
+      transport.sendControl({ type: 'transcript', text, final: true })
+    })
+    agent.on('agent_token', ({ text }) => {
+      transport.sendControl({ type: 'agent_text', text })
+    })
+
+    transport.sendControl({ type: 'agent_text', text: getGreeting(userName) })
+
+    return transport
+  }
+
+  /**
+   * Handles control messages during the call.
+   */
+  #handleControlMessage(message: VoiceControlMessage): void {
+    switch (message.type) {
+      case 'interrupt':
+        this.#session?.agent.interrupt()
+        break
+      case 'end':
+        this.#session?.close('client ended the call')
+        break
+      case 'configure':
+        this.#sendError('The call has already started; reconnect to change its configuration')
+        break
+      default:
+        console.warn(`Audio socket: Ignoring unknown control message ${message.type}`)
+    }
+  }
+
+  #sendError(message: string): void {
+    const error: VoiceControlMessage = { type: 'error', message }
+    if (this.#transport) {
+      this.#transport.sendControl(error)
+      return
+    }
+    try {
+      this.#socket.send(JSON.stringify(error))
+    } catch {
+      // Socket already closed
+    }
+  }
+}
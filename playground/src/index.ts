@@ -17,15 +17,32 @@ import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 
 import {
-  createCareerCoachVoiceAgent,
+  applyCallConfig,
+  DEFAULT_PROVIDERS,
   getAvailableProviders,
-  type STTProvider,
-  type TTSProvider,
+  type CallConfig,
 } from './agent.js'
+import { AudioSocketCall } from './audio-socket.js'
+import { VoiceSessionManager } from './sessions.js'
+import {
+  answerTwilioCall,
+  buildStreamTwiML,
+  validateTwilioSignature,
+  type TwilioMediaStreamTransport,
+} from './twilio.js'
+import { WebRTCTrackTransport } from './webrtc.js'
 
 const { RTCPeerConnection, RTCSessionDescription } = wrtc
 
 const app = new Hono()
+
+// Every call on this server, with its limits
+const sessions = new VoiceSessionManager({
+  maxSessions: process.env.MAX_SESSIONS ? Number(process.env.MAX_SESSIONS) : undefined,
+  maxDurationMs: process.env.MAX_CALL_MINUTES
+    ? Number(process.env.MAX_CALL_MINUTES) * 60 * 1000
+    : undefined,
+})
 const { injectWebSocket, upgradeWebSocket } = createNodeWebSocket({ app })
 
 app.use('/*', cors())
@@ -41,6 +58,22 @@ app.get('/api/providers', (c) => {
   return c.json(providers)
 })
 
+// Active calls. Unauthenticated, so no thread ids (enough to resume a
+// conversation on the agent server) or user names.
+app.get('/api/sessions', (c) => {
+  return c.json({
+    active: sessions.size,
+    maxSessions: sessions.maxSessions,
+    maxDurationMs: sessions.maxDurationMs,
+    sessions: sessions.list().map(({ id, channel, startedAt, durationMs }) => ({
+      id,
+      channel,
+      startedAt,
+      durationMs,
+    })),
+  })
+})
+
 // =============================================================================
 // WebRTC Signaling
 // =============================================================================
@@ -49,15 +82,9 @@ app.get(
   '/ws/signaling',
   upgradeWebSocket(() => {
     let peerConnection: InstanceType<typeof RTCPeerConnection> | null = null
-    let audioDataChannel: wrtc.RTCDataChannel | null = null
-    let controller: ReadableStreamDefaultController<Buffer>
-    let pipelineClosed = false
     let signalingWs: { send: (data: string) => void; readyState: number } | null = null
-    let agent: ReturnType<typeof createCareerCoachVoiceAgent> | null = null
-    let sttProvider: STTProvider = 'assemblyai'
-    let ttsProvider: TTSProvider = 'elevenlabs'
-    let userName: string | undefined
-    let threadId: string | undefined
+    let transport: WebRTCTrackTransport | null = null
+    let config: CallConfig = { ...DEFAULT_PROVIDERS }
 
     function sendSignalingMessage(message: object) {
       if (signalingWs && signalingWs.readyState === 1) {
@@ -65,35 +92,6 @@ app.get(
       }
     }
 
-    function closeConnection(reason: string) {
-      console.log(`Closing connection: ${reason}`)
-      pipelineClosed = true
-
-      if (audioDataChannel && audioDataChannel.readyState === 'open') {
-        audioDataChannel.send(JSON.stringify({ type: 'call-ended', reason }))
-      }
-
-      setTimeout(() => {
-        audioDataChannel?.close()
-        audioDataChannel = null
-        peerConnection?.close()
-        peerConnection = null
-        try {
-          controller.close()
-        } catch {
-          /* ignore */
-        }
-        sendSignalingMessage({ type: 'connection-closed', reason })
-      }, 500)
-    }
-
-    // Create input stream for audio
-    const inputStream = new ReadableStream<Buffer>({
-      start(c) {
-        controller = c
-      },
-    })
-
     return {
       onOpen(_evt, ws) {
         console.log('Signaling WebSocket connected')
@@ -114,80 +112,42 @@ app.get(
 
         peerConnection.onconnectionstatechange = () => {
           console.log('Connection state:', peerConnection?.connectionState)
+          if (peerConnection?.connectionState === 'failed') {
+            callTransport.close('connection failed')
+          }
+        }
+
+        // Audio travels on media tracks; the data channel only carries control messages
+        const callTransport = new WebRTCTrackTransport()
+        transport = callTransport
+
+        peerConnection.ontrack = (event: { track: wrtc.MediaStreamTrack }) => {
+          if (event.track.kind !== 'audio') return
+          console.log('Inbound audio track received')
+          callTransport.attachInboundTrack(event.track)
         }
 
         peerConnection.ondatachannel = (event: { channel: wrtc.RTCDataChannel }) => {
-          if (event.channel.label === 'audio') {
-            audioDataChannel = event.channel
-
-            audioDataChannel.onopen = async () => {
-              console.log('Audio channel open')
-              
-              // Generate a unique thread ID for this conversation
-              threadId = `voice-session-${Math.random().toString(36).substring(2, 15)}`
-
-              // Create the voice agent with selected providers
-              agent = createCareerCoachVoiceAgent({
-                closeConnection,
-                onSpeechStart: () => {
-                  // Barge-in: user started speaking
-                  console.log('Barge-in: User started speaking, interrupting TTS')
-                  agent?.tts.interrupt()
-
-                  if (audioDataChannel && audioDataChannel.readyState === 'open') {
-                    audioDataChannel.send(JSON.stringify({ type: 'clear-audio' }))
-                  }
-                },
-                providers: { sttProvider, ttsProvider },
-                userName,
-                threadId,
-              })
-
-              // Helper to stream audio chunks to the data channel
-              const streamToChannel = async (
-                stream: ReadableStream<Buffer>,
-                label: string
-              ) => {
-                const reader = stream.getReader()
-                try {
-                  while (true) {
-                    const { done, value } = await reader.read()
-                    if (done || pipelineClosed) break
-                    if (audioDataChannel && audioDataChannel.readyState === 'open') {
-                      audioDataChannel.send(value as unknown as ArrayBuffer)
-                    }
-                  }
-                } catch (e) {
-                  console.error(`${label} error:`, e)
-                  if (label === 'Pipeline') pipelineClosed = true
-                }
-              }
-
-              // Send initial greeting when call starts (runs in parallel with pipeline)
-              const greeting = userName
-                ? `Hi ${userName}! I'm your career coach. How can I help you with your career today?`
-                : "Hi there! I'm your career coach. How can I help you with your career today?"
-              streamToChannel(agent.tts.speak(greeting), 'Greeting')
-
-              // Process audio through the voice agent pipeline
-              streamToChannel(agent.process(inputStream), 'Pipeline')
-            }
-
-            audioDataChannel.onmessage = (msgEvent: { data: ArrayBuffer | string }) => {
-              if (pipelineClosed) return
-              const data = msgEvent.data
-              if (data instanceof ArrayBuffer) {
-                try {
-                  controller.enqueue(Buffer.from(data))
-                } catch {
-                  pipelineClosed = true
-                }
-              }
-            }
-
-            audioDataChannel.onclose = () => console.log('Audio channel closed')
+          if (event.channel.label !== 'control') return
+          const channel = event.channel
+
+          channel.onopen = () => {
+            console.log('Control channel open')
+            callTransport.attachControlChannel(channel)
+
+            sessions.start(callTransport, { channel: 'webrtc', config })
           }
         }
+
+        callTransport.onClose((reason) => {
+          console.log(`Closing connection: ${reason}`)
+          // Give the data channel time to deliver `call-ended`
+          setTimeout(() => {
+            peerConnection?.close()
+            peerConnection = null
+            sendSignalingMessage({ type: 'connection-closed', reason })
+          }, 500)
+        })
       },
 
       async onMessage(evt) {
@@ -196,26 +156,19 @@ app.get(
         // Handle provider configuration message
         if (message.type === 'configure-providers') {
           console.log('Configuring providers:', message)
-          if (message.sttProvider) {
-            sttProvider = message.sttProvider as STTProvider
-          }
-          if (message.ttsProvider) {
-            ttsProvider = message.ttsProvider as TTSProvider
-          }
-          if (message.userName) {
-            userName = message.userName as string
-            console.log('User name received:', userName)
-          }
+          config = applyCallConfig(config, message)
           sendSignalingMessage({
             type: 'providers-configured',
-            providers: { sttProvider, ttsProvider },
-            userName,
+            providers: { sttProvider: config.sttProvider, ttsProvider: config.ttsProvider },
+            userName: config.userName,
           })
           return
         }
 
         if (message.type === 'offer') {
           await peerConnection!.setRemoteDescription(new RTCSessionDescription(message.sdp))
+          // Send the agent's speech on the audio transceiver the client offered
+          if (transport) peerConnection!.addTrack(transport.track)
           const answer = await peerConnection!.createAnswer()
           await peerConnection!.setLocalDescription(answer)
           sendSignalingMessage({ type: 'answer', sdp: peerConnection!.localDescription })
@@ -226,15 +179,100 @@ app.get(
 
       onClose() {
         console.log('Signaling disconnected')
-        pipelineClosed = true
         signalingWs = null
-        audioDataChannel?.close()
+        transport?.close('signaling disconnected')
+        transport = null
         peerConnection?.close()
-        try {
-          controller.close()
-        } catch {
-          /* ignore */
-        }
+        peerConnection = null
+      },
+    }
+  })
+)
+
+// =============================================================================
+// Plain WebSocket Audio (clients without WebRTC)
+// =============================================================================
+
+app.get(
+  '/ws/audio',
+  upgradeWebSocket(() => {
+    let call: AudioSocketCall | null = null
+
+    return {
+      onOpen(_evt, ws) {
+        console.log('Audio WebSocket connected')
+        call = new AudioSocketCall(ws, sessions)
+      },
+
+      onMessage(evt) {
+        call?.handleMessage(evt.data)
+      },
+
+      onClose() {
+        console.log('Audio WebSocket disconnected')
+        call?.handleClose()
+        call = null
+      },
+    }
+  })
+)
+
+// =============================================================================
+// Twilio Media Streams
+// =============================================================================
+
+// Point a Twilio number's "A call comes in" webhook here (optionally with ?stt=&tts=).
+// Requests must be signed with TWILIO_AUTH_TOKEN, the account's auth token.
+app.post('/twilio/voice', async (c) => {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  if (!authToken) {
+    return c.json({ error: 'Set TWILIO_AUTH_TOKEN to enable this endpoint' }, 503)
+  }
+
+  const host = c.req.header('x-forwarded-host') ?? c.req.header('host')
+  // Twilio signs the public URL, which a proxy or tunnel may have rewritten
+  const { protocol, pathname, search } = new URL(c.req.url)
+  const scheme = c.req.header('x-forwarded-proto') ?? protocol.slice(0, -1)
+  const body = await c.req.parseBody()
+  const params = Object.fromEntries(
+    Object.entries(body).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  )
+  const url = `${scheme}://${host}${pathname}${search}`
+  const signature = c.req.header('x-twilio-signature') ?? ''
+  if (!validateTwilioSignature(authToken, signature, url, params)) {
+    return c.json({ error: 'Invalid Twilio signature' }, 403)
+  }
+
+  const parameters: Record<string, string> = {}
+  const stt = c.req.query('stt')
+  const tts = c.req.query('tts')
+  if (stt) parameters.sttProvider = stt
+  if (tts) parameters.ttsProvider = tts
+
+  // Twilio only connects to wss:// stream URLs
+  const twiml = buildStreamTwiML(`wss://${host}/ws/twilio`, parameters)
+  return c.body(twiml, 200, { 'Content-Type': 'text/xml' })
+})
+
+app.get(
+  '/ws/twilio',
+  upgradeWebSocket(() => {
+    let transport: TwilioMediaStreamTransport | null = null
+
+    return {
+      onOpen(_evt, ws) {
+        console.log('Twilio WebSocket connected')
+        transport = answerTwilioCall(ws, sessions)
+      },
+
+      onMessage(evt) {
+        transport?.handleMessage(evt.data as string)
+      },
+
+      onClose() {
+        console.log('Twilio WebSocket disconnected')
+        transport?.handleClose()
+        transport = null
       },
     }
   })
@@ -249,3 +287,13 @@ const server = serve({ fetch: app.fetch, port })
 injectWebSocket(server)
 
 console.log(`🎯 Career Coach Voice Agent running on http://localhost:${port}`)
+
+// End calls cleanly (closing provider connections) before the process exits
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    console.log(`Received ${signal}, ending ${sessions.size} active call(s)`)
+    sessions.closeAll()
+    // Give transports a moment to tell clients the call ended
+    setTimeout(() => process.exit(0), 1000)
+  })
+}
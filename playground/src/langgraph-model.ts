@@ -1,127 +1,279 @@
+/**
+ * LangGraph agent server model
+ *
+ * A streaming chat model that forwards each user turn to the careers coach
+ * agent server (`agent/src/server.ts`) and streams its reply back over the
+ * server's `/stream` SSE endpoint. Tokens are yielded as they arrive, so TTS
+ * can start on the first sentence while the graph is still running.
+ *
+ * The remote graph keeps its own conversation history per thread, so only the
+ * latest user message is sent. Tool activity and interrupts are reported to
+ * `onEvent()` listeners and on the final chunk's `response_metadata`; when the
+ * graph is interrupted, the next user message resumes it.
+ */
+
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager'
 import {
-  type BaseMessage,
-  isBaseMessageChunk,
-} from '@langchain/core/messages'
-import {
-  type ChatResult,
-  type LLMCallbackManager,
-  SimpleChatModel,
+  BaseChatModel,
+  type BaseChatModelParams,
 } from '@langchain/core/language_models/chat_models'
+import { AIMessageChunk, HumanMessage, type BaseMessage } from '@langchain/core/messages'
+import { ChatGenerationChunk, type ChatResult } from '@langchain/core/outputs'
 import { getEnvironmentVariable } from '@langchain/core/utils/env'
 
-const LANGGRAPH_API_URL =
-  getEnvironmentVariable('LANGGRAPH_DEPLOYMENT_URL') || 'http://localhost:8123'
+const DEFAULT_API_URL = 'http://localhost:8123'
+
+/**
+ * Messages emitted by the agent server's `/stream` endpoint.
+ */
+type ServerStreamMessage =
+  | { type: 'token'; content: unknown }
+  | { type: 'tool_start'; name: string }
+  | { type: 'tool_end'; name: string; output: unknown }
+  | {
+      type: 'done'
+      isInterrupted?: boolean
+      interruptValue?: unknown
+      currentNode?: string
+    }
+  | { type: 'error'; error: string }
+
+/**
+ * Graph activity reported while a reply streams.
+ */
+export type LangGraphModelEvent =
+  | { type: 'tool_start'; name: string }
+  | { type: 'tool_end'; name: string; output: unknown }
+  | { type: 'interrupt'; value: unknown }
+
+export interface LangGraphModelParams extends BaseChatModelParams {
+  /**
+   * Base URL of the agent server.
+   * @default LANGGRAPH_DEPLOYMENT_URL, or http://localhost:8123
+   */
+  apiUrl?: string
+  /**
+   * Bearer token the agent server requires to run the graph.
+   * @default AGENT_API_KEY
+   */
+  apiKey?: string
+  /** Conversation thread on the agent server (generated when omitted) */
+  threadId?: string
+  /** Profile fields sent with each message */
+  userProfile?: Record<string, unknown>
+}
 
 /**
- * A custom LangChain model that routes calls to a LangGraph agent endpoint.
+ * Chat model backed by the careers coach agent server.
  */
-export class LangGraphModel extends SimpleChatModel {
-  private threadId?: string
+export class LangGraphModel extends BaseChatModel {
+  readonly apiUrl: string
+  readonly threadId: string
+  userProfile?: Record<string, unknown>
+
+  #apiKey?: string
+
+  /** Value of the interrupt the graph is waiting on, if any */
+  #pendingInterrupt: unknown = undefined
+  #listeners: Array<(event: LangGraphModelEvent) => void> = []
 
-  constructor(threadId?: string) {
-    super()
-    this.threadId = threadId
+  constructor(params: LangGraphModelParams = {}) {
+    super(params)
+    this.apiUrl =
+      params.apiUrl ?? (getEnvironmentVariable('LANGGRAPH_DEPLOYMENT_URL') || DEFAULT_API_URL)
+    this.#apiKey = params.apiKey ?? getEnvironmentVariable('AGENT_API_KEY')
+    this.threadId = params.threadId ?? `voice-${crypto.randomUUID()}`
+    this.userProfile = params.userProfile
   }
 
   _llmType() {
     return 'langgraph'
   }
 
-  /**
-   * Generates a random thread ID. In a real app, this should be
-   * managed based on user sessions.
-   */
-  private createThreadId(): string {
-    return `thread_${Math.random().toString(36).substring(2, 15)}`
+  /** Whether the remote graph is waiting for the user to answer an interrupt */
+  get isInterrupted(): boolean {
+    return this.#pendingInterrupt !== undefined
   }
 
   /**
-   * The main call to the LangGraph agent.
+   * Subscribe to tool and interrupt events. Returns an unsubscribe function.
    */
-  async _call(
-    messages: BaseMessage[],
-    _options: this['ParsedCallOptions'],
-    _callbacks?: LLMCallbackManager | undefined
-  ): Promise<string> {
-    const userMessage = messages[messages.length - 1].content
+  onEvent(listener: (event: LangGraphModelEvent) => void): () => void {
+    this.#listeners.push(listener)
+    return () => {
+      this.#listeners = this.#listeners.filter((l) => l !== listener)
+    }
+  }
 
-    if (typeof userMessage !== 'string') {
-      throw new Error('LangGraphModel expects the last message to be a string.')
+  protected notifyEvent(event: LangGraphModelEvent): void {
+    for (const listener of this.#listeners) {
+      try {
+        listener(event)
+      } catch (e) {
+        console.error('[LangGraphModel] Event listener error:', e)
+      }
     }
+  }
 
-    const threadId = this.threadId || this.createThreadId()
-    console.log(`[LangGraphModel] Calling agent for thread: ${threadId}`)
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    let result: ChatGenerationChunk | undefined
+    for await (const chunk of this._streamResponseChunks(messages, options, runManager)) {
+      result = result ? result.concat(chunk) : chunk
+    }
+    return { generations: result ? [result] : [] }
+  }
 
-    const response = await fetch(`${LANGGRAPH_API_URL}/runs`, {
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const text = getLastUserText(messages)
+
+    // An interrupted graph is waiting for this answer
+    const resuming = this.#pendingInterrupt !== undefined
+    this.#pendingInterrupt = undefined
+    console.log(
+      `[LangGraphModel] ${resuming ? 'Resuming' : 'Calling'} agent for thread: ${this.threadId}`
+    )
+
+    const response = await fetch(`${this.apiUrl}/stream`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.#apiKey && { Authorization: `Bearer ${this.#apiKey}` }),
+      },
       body: JSON.stringify({
-        assistant_id: 'careers_coach',
-        thread_id: threadId,
-        input: { messages: [{ role: 'human', content: userMessage }] },
+        threadId: this.threadId,
+        // Recorded with any profile changes the reply makes
+        channel: 'voice',
+        ...(resuming
+          ? { command: { resume: text } }
+          : { message: text, userProfile: this.userProfile }),
       }),
+      signal: options.signal,
     })
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(
-        `[LangGraphModel] Error from LangGraph API: ${response.status} ${errorText}`
-      )
-      throw new Error(`LangGraph API request failed: ${errorText}`)
+    if (!response.ok || !response.body) {
+      const errorText = await response.text().catch(() => '')
+      throw new Error(`Agent server request failed: ${response.status} ${errorText}`)
     }
 
-    // LangGraph can stream responses. We need to find the final assistant message.
-    const responseStream = response.body
-    if (!responseStream) {
-      return 'Sorry, I received an empty response from the agent.'
+    const toolsUsed: string[] = []
+
+    for await (const message of readServerStream(response.body)) {
+      switch (message.type) {
+        case 'token': {
+          const token = message.content
+          if (typeof token !== 'string' || token.length === 0) break
+          const chunk = new ChatGenerationChunk({
+            text: token,
+            message: new AIMessageChunk({ content: token }),
+          })
+          yield chunk
+          await runManager?.handleLLMNewToken(token, undefined, undefined, undefined, undefined, {
+            chunk,
+          })
+          break
+        }
+        case 'tool_start':
+          toolsUsed.push(message.name)
+          this.notifyEvent({ type: 'tool_start', name: message.name })
+          break
+        case 'tool_end':
+          this.notifyEvent({ type: 'tool_end', name: message.name, output: message.output })
+          break
+        case 'error':
+          throw new Error(`Agent server error: ${message.error}`)
+        case 'done': {
+          const interruptValue = message.isInterrupted ? message.interruptValue : undefined
+          if (interruptValue !== undefined) {
+            this.#pendingInterrupt = interruptValue
+            this.notifyEvent({ type: 'interrupt', value: interruptValue })
+          }
+
+          // The graph asks its question through the interrupt rather than in tokens
+          const prompt = getInterruptPrompt(interruptValue)
+          yield new ChatGenerationChunk({
+            text: prompt,
+            message: new AIMessageChunk({
+              content: prompt,
+              response_metadata: {
+                threadId: this.threadId,
+                toolsUsed,
+                isInterrupted: interruptValue !== undefined,
+                interruptValue: interruptValue ?? null,
+                currentNode: message.currentNode,
+              },
+            }),
+          })
+          return
+        }
+      }
     }
 
-    // This is a simplified way to handle LangGraph streams.
-    // It just concatenates message chunks. A more robust solution
-    // would parse the event stream properly.
-    const reader = responseStream.getReader()
-    const decoder = new TextDecoder()
-    let fullResponse = ''
-    let lastMessage = ''
+    throw new Error('Agent server closed the stream before the reply finished')
+  }
+}
+
+/**
+ * What to say for an interrupt: a string value, or a structured payload's `spokenPrompt`.
+ */
+function getInterruptPrompt(value: unknown): string {
+  if (typeof value === 'string') return value
+  const spokenPrompt = (value as { spokenPrompt?: unknown } | undefined)?.spokenPrompt
+  return typeof spokenPrompt === 'string' ? spokenPrompt : ''
+}
 
+/**
+ * Text of the latest user message - the remote graph holds the rest of the history.
+ */
+function getLastUserText(messages: BaseMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (HumanMessage.isInstance(messages[i])) return messages[i].text
+  }
+  throw new Error('LangGraphModel needs a user message to send')
+}
+
+/**
+ * Parses the agent server's SSE stream into messages.
+ */
+async function* readServerStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerStreamMessage> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  try {
     while (true) {
       const { done, value } = await reader.read()
       if (done) break
+      buffer += value
 
-      const chunk = decoder.decode(value, { stream: true })
-      fullResponse += chunk
+      let boundary: number
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const event = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
 
-      // Poor man's stream parsing: find the last "content" value
-      try {
-        const lines = fullResponse.split('\n')
-        for (const line of lines) {
-          if (line.startsWith('data:')) {
-            const json = JSON.parse(line.substring(5))
-            if (
-              json.event === 'on_chat_model_stream' &&
-              isBaseMessageChunk(json.data.chunk) &&
-              typeof json.data.chunk.content === 'string'
-            ) {
-              // This will overwrite until we get the final chunk with content
-              lastMessage += json.data.chunk.content
-            }
-          }
+        const data = event
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n')
+        if (!data) continue
+
+        try {
+          yield JSON.parse(data) as ServerStreamMessage
+        } catch {
+          console.warn('[LangGraphModel] Ignoring malformed stream event:', data)
         }
-      } catch {
-        // Ignore parsing errors, just wait for more data
       }
     }
-
-    console.log(`[LangGraphModel] Received response: "${lastMessage}"`)
-    return lastMessage || "I'm sorry, I couldn't generate a response."
-  }
-
-  // Not implemented, but required by the abstract class.
-  _streamResponseChunks(
-    _messages: BaseMessage[],
-    _options: this['ParsedCallOptions'],
-    _callbacks?: LLMCallbackManager | undefined
-  ): AsyncGenerator<ChatResult> {
-    throw new Error('Method not implemented.')
+  } finally {
+    reader.cancel().catch(() => {})
   }
 }
@@ -0,0 +1,181 @@
+/**
+ * Voice session manager
+ *
+ * Owns every active call on the server: its voice agent, thread id, providers
+ * and timers. Each call gets its own agent, so nothing leaks between
+ * concurrent callers, and every way a call can end (either side hanging up,
+ * the `hang_up` tool, a dropped connection, the duration limit) goes through
+ * the transport closing, which stops the agent - closing its STT socket and
+ * aborting in-flight TTS requests - and releases the call's slot.
+ */
+
+import { runVoiceSession, type VoiceSession, type VoiceTransport } from 'create-voice-agent'
+
+import {
+  createCareerCoachVoiceAgent,
+  getGreeting,
+  type CallConfig,
+  type ProviderConfig,
+} from './agent.js'
+
+/** How the caller is connected */
+export type CallChannel = 'webrtc' | 'websocket' | 'twilio'
+
+export interface VoiceSessionManagerOptions {
+  /**
+   * Calls allowed at the same time. Further calls are turned away.
+   * @default 10
+   */
+  maxSessions?: number
+  /**
+   * Longest a call may last before it is ended (ms).
+   * @default 900000 (15 minutes)
+   */
+  maxDurationMs?: number
+}
+
+export interface StartCallOptions {
+  channel: CallChannel
+  config: CallConfig
+  /** Conversation thread id (a UUID is generated when omitted) */
+  threadId?: string
+}
+
+/**
+ * Summary of an active call. `GET /api/sessions` returns only its id,
+ * channel and timing.
+ */
+export interface SessionInfo {
+  id: string
+  channel: CallChannel
+  threadId: string
+  providers: ProviderConfig
+  userName?: string
+  /** ISO timestamp */
+  startedAt: string
+  durationMs: number
+}
+
+interface ManagedSession {
+  info: Omit<SessionInfo, 'durationMs'>
+  session: VoiceSession
+  durationTimer: ReturnType<typeof setTimeout>
+}
+
+export class VoiceSessionManager {
+  readonly maxSessions: number
+  readonly maxDurationMs: number
+  readonly #sessions = new Map<string, ManagedSession>()
+
+  constructor(options: VoiceSessionManagerOptions = {}) {
+    this.maxSessions = options.maxSessions ?? 10
+    this.maxDurationMs = options.maxDurationMs ?? 15 * 60 * 1000
+  }
+
+  /** Number of active calls */
+  get size(): number {
+    return this.#sessions.size
+  }
+
+  /** Whether another call can be started right now */
+  hasCapacity(): boolean {
+    return this.#sessions.size < this.maxSessions
+  }
+
+  /**
+   * Starts a call: creates a career coach agent and runs it over the
+   * transport. If the call can't start (server full, provider setup failed),
+   * the transport is closed with the reason and `null` is returned.
+   */
+  start(transport: VoiceTransport, options: StartCallOptions): VoiceSession | null {
+    const { channel, config } = options
+
+    if (!this.hasCapacity()) {
+      console.warn(`Sessions: Turning away ${channel} call (${this.maxSessions} active)`)
+      transport.close('server busy, please try again later')
+      return null
+    }
+
+    const id = crypto.randomUUID()
+    // LangGraph deployments only accept UUID thread ids
+    const threadId = options.threadId ?? id
+    const providers = { sttProvider: config.sttProvider, ttsProvider: config.ttsProvider }
+
+    let session: VoiceSession
+    try {
+      const agent = createCareerCoachVoiceAgent({
+        providers,
+        userName: config.userName,
+        threadId,
+      })
+      session = runVoiceSession(agent, transport, { greeting: getGreeting(config.userName) })
+    } catch (e) {
+      console.error(`Sessions: Failed to start ${channel} call:`, e)
+      transport.close('failed to start the call')
+      return null
+    }
+
+    const durationTimer = setTimeout(() => {
+      console.log(`Sessions: Call ${id} reached the ${this.maxDurationMs / 1000}s limit`)
+      session.close('maximum call duration reached')
+    }, this.maxDurationMs)
+
+    this.#sessions.set(id, {
+      info: {
+        id,
+        channel,
+        threadId,
+        providers,
+        userName: config.userName,
+        startedAt: new Date().toISOString(),
+      },
+      session,
+      durationTimer,
+    })
+    console.log(`Sessions: Call ${id} started (${channel}, ${this.#sessions.size} active)`)
+
+    // Every way a call ends closes its transport
+    transport.onClose((reason) => this.#release(id, reason))
+    if (transport.closed) this.#release(id, 'closed during setup')
+
+    return session
+  }
+
+  /**
+   * Active calls, oldest first.
+   */
+  list(): SessionInfo[] {
+    const now = Date.now()
+    return [...this.#sessions.values()].map(({ info }) => ({
+      ...info,
+      durationMs: now - Date.parse(info.startedAt),
+    }))
+  }
+
+  /**
+   * Ends a call. Returns false if there is no such call.
+   */
+  close(id: string, reason = 'ended by the server'): boolean {
+    const managed = this.#sessions.get(id)
+    if (!managed) return false
+    managed.session.close(reason)
+    return true
+  }
+
+  /**
+   * Ends every call (e.g. on shutdown).
+   */
+  closeAll(reason = 'server shutting down'): void {
+    for (const { session } of [...this.#sessions.values()]) {
+      session.close(reason)
+    }
+  }
+
+  #release(id: string, reason: string): void {
+    const managed = this.#sessions.get(id)
+    if (!managed) return
+    clearTimeout(managed.durationTimer)
+    this.#sessions.delete(id)
+    console.log(`Sessions: Call ${id} ended (${reason}, ${this.#sessions.size} active)`)
+  }
+}
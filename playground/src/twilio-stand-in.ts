@@ -0,0 +1,230 @@
+/**
+ * Twilio stand-in
+ *
+ * Plays a recorded message into `answerTwilioCall()` the way Twilio
+ * would - `connected`, `start`, paced 20ms μ-law `media` frames, `stop` - and
+ * echoes `mark` messages once their audio would have finished playing. The
+ * agent's audio is written to a WAV file, so a phone call can be tested end to
+ * end without a phone number or a public URL.
+ *
+ * Usage: pnpm --filter @create-voice-agent/playground twilio:stand-in message.wav [reply.wav]
+ */
+
+import 'dotenv/config'
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { setTimeout as sleep } from 'node:timers/promises'
+
+import { convertAudio, pcm16Format } from 'create-voice-agent'
+
+import { VoiceSessionManager } from './sessions.js'
+import {
+  answerTwilioCall,
+  TWILIO_AUDIO_FORMAT,
+  type TwilioInboundMessage,
+  type TwilioOutboundMessage,
+} from './twilio.js'
+
+/** Twilio sends 20ms of 8kHz μ-law per media message */
+const FRAME_BYTES = 160
+const FRAME_MS = 20
+/** Silence sent after the message so the STT's endpointing ends the turn */
+const TRAILING_SILENCE_MS = 2000
+/** How long to wait for the agent to reply */
+const REPLY_TIMEOUT_MS = 30000
+/** Quiet time after the reply has played before the stand-in hangs up */
+const REPLY_SETTLE_MS = 3000
+
+/**
+ * Reads a 16-bit PCM WAV file.
+ */
+function readWav(path: string): { pcm: Buffer; sampleRate: number; channels: number } {
+  const file = readFileSync(path)
+  if (file.toString('ascii', 0, 4) !== 'RIFF' || file.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error(`${path} is not a WAV file`)
+  }
+
+  let sampleRate = 0
+  let channels = 0
+  let offset = 12
+  while (offset + 8 <= file.length) {
+    const id = file.toString('ascii', offset, offset + 4)
+    const size = file.readUInt32LE(offset + 4)
+    const body = offset + 8
+
+    if (id === 'fmt ') {
+      const format = file.readUInt16LE(body)
+      const bitsPerSample = file.readUInt16LE(body + 14)
+      if (format !== 1 || bitsPerSample !== 16) {
+        throw new Error(`${path} must be 16-bit PCM`)
+      }
+      channels = file.readUInt16LE(body + 2)
+      sampleRate = file.readUInt32LE(body + 4)
+    } else if (id === 'data') {
+      return { pcm: file.subarray(body, body + size), sampleRate, channels }
+    }
+    offset = body + size + (size % 2)
+  }
+  throw new Error(`${path} has no audio data`)
+}
+
+/**
+ * Writes 16-bit mono PCM as a WAV file.
+ */
+function writeWav(path: string, pcm: Buffer, sampleRate: number): void {
+  const header = Buffer.alloc(44)
+  header.write('RIFF', 0)
+  header.writeUInt32LE(36 + pcm.length, 4)
+  header.write('WAVE', 8)
+  header.write('fmt ', 12)
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(1, 20) // PCM
+  header.writeUInt16LE(1, 22) // Mono
+  header.writeUInt32LE(sampleRate, 24)
+  header.writeUInt32LE(sampleRate * 2, 28)
+  header.writeUInt16LE(2, 32)
+  header.writeUInt16LE(16, 34)
+  header.write('data', 36)
+  header.writeUInt32LE(pcm.length, 40)
+  writeFileSync(path, Buffer.concat([header, pcm]))
+}
+
+async function main() {
+  const [inputPath, outputPath = 'twilio-reply.wav'] = process.argv.slice(2)
+  if (!inputPath) {
+    console.error('Usage: twilio-stand-in <message.wav> [reply.wav]')
+    process.exit(1)
+  }
+
+  const recording = readWav(inputPath)
+  const message = convertAudio(
+    recording.pcm,
+    pcm16Format(recording.sampleRate, recording.channels),
+    TWILIO_AUDIO_FORMAT
+  )
+
+  const streamSid = 'MZstandin'
+  const replyAudio: Buffer[] = []
+  let sequenceNumber = 0
+  let hungUp = false
+  // When the audio received so far will have finished "playing"
+  let playbackEndsAt = Date.now()
+  // Marks waiting for their audio to "play"
+  const pendingMarks = new Map<string, ReturnType<typeof setTimeout>>()
+  const echoMark = (name: string) => {
+    clearTimeout(pendingMarks.get(name))
+    pendingMarks.delete(name)
+    deliver({ event: 'mark', streamSid, mark: { name } })
+  }
+
+  const sessions = new VoiceSessionManager({ maxSessions: 1 })
+  const transport = answerTwilioCall(
+    {
+      send(data) {
+        const outbound = JSON.parse(data) as TwilioOutboundMessage
+        switch (outbound.event) {
+          case 'media': {
+            const audio = Buffer.from(outbound.media.payload, 'base64')
+            replyAudio.push(audio)
+            playbackEndsAt = Math.max(playbackEndsAt, Date.now()) + audio.length / 8
+            break
+          }
+          case 'mark': {
+            const { name } = outbound.mark
+            const delay = Math.max(0, playbackEndsAt - Date.now())
+            pendingMarks.set(
+              name,
+              setTimeout(() => echoMark(name), delay)
+            )
+            break
+          }
+          case 'clear':
+            // Like Twilio, drop the buffered audio and echo its marks right away
+            console.log('[StandIn] Playback cleared (barge-in)')
+            playbackEndsAt = Date.now()
+            for (const name of [...pendingMarks.keys()]) echoMark(name)
+            break
+        }
+      },
+      close() {
+        console.log('[StandIn] Call hung up by the agent')
+        hungUp = true
+      },
+    },
+    sessions
+  )
+
+  // Adds the sequence number Twilio puts on every message after `connected`
+  const deliver = (inbound: Record<string, unknown>) => {
+    transport.handleMessage(
+      JSON.stringify({ ...inbound, sequenceNumber: String(++sequenceNumber) })
+    )
+  }
+
+  transport.handleMessage(
+    JSON.stringify({
+      event: 'connected',
+      protocol: 'Call',
+      version: '1.0.0',
+    } satisfies TwilioInboundMessage)
+  )
+  deliver({
+    event: 'start',
+    streamSid,
+    start: {
+      streamSid,
+      accountSid: 'ACstandin',
+      callSid: 'CAstandin',
+      tracks: ['inbound'],
+      customParameters: {},
+      mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 },
+    },
+  })
+
+  // Let the greeting play, then "say" the message followed by silence
+  await sleep(3000)
+  const silence = Buffer.alloc((TRAILING_SILENCE_MS / FRAME_MS) * FRAME_BYTES, 0xff)
+  const audio = Buffer.concat([message, silence])
+  console.log(`[StandIn] Playing ${(message.length / 8000).toFixed(1)}s message`)
+
+  for (let chunk = 0; chunk * FRAME_BYTES < audio.length && !hungUp; chunk++) {
+    const frame = audio.subarray(chunk * FRAME_BYTES, (chunk + 1) * FRAME_BYTES)
+    deliver({
+      event: 'media',
+      streamSid,
+      media: {
+        track: 'inbound',
+        chunk: String(chunk + 1),
+        timestamp: String(chunk * FRAME_MS),
+        payload: frame.toString('base64'),
+      },
+    })
+    await sleep(FRAME_MS)
+  }
+
+  // Wait for the reply to be generated and played
+  const chunksBeforeReply = replyAudio.length
+  const deadline = Date.now() + REPLY_TIMEOUT_MS
+  while (!hungUp && Date.now() < deadline) {
+    await sleep(500)
+    const replied = replyAudio.length > chunksBeforeReply
+    if (replied && Date.now() > playbackEndsAt + REPLY_SETTLE_MS) break
+  }
+
+  if (!hungUp) {
+    deliver({ event: 'stop', streamSid, stop: { accountSid: 'ACstandin', callSid: 'CAstandin' } })
+  }
+  for (const timer of pendingMarks.values()) clearTimeout(timer)
+
+  const reply = convertAudio(Buffer.concat(replyAudio), TWILIO_AUDIO_FORMAT, pcm16Format(8000))
+  writeWav(outputPath, reply, 8000)
+  console.log(
+    `[StandIn] Wrote ${(reply.length / 16000).toFixed(1)}s of agent audio to ${outputPath}`
+  )
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,276 @@
+/**
+ * Twilio Media Streams transport
+ *
+ * Connects a phone call to the voice agent. Twilio streams the caller's audio
+ * over a WebSocket as base64 μ-law 8kHz frames and plays back whatever media we
+ * send. `mark` messages are echoed by Twilio once the audio sent before them has
+ * been played, which is how we know the caller actually heard a reply.
+ *
+ * @see https://www.twilio.com/docs/voice/media-streams/websocket-messages
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+import { BaseVoiceTransport, type AudioFormat, type VoiceControlMessage } from 'create-voice-agent'
+
+import {
+  DEFAULT_PROVIDERS,
+  type ProviderConfig,
+  type STTProvider,
+  type TTSProvider,
+} from './agent.js'
+import type { VoiceSessionManager } from './sessions.js'
+
+/** Audio format of Twilio Media Streams (both directions) */
+export const TWILIO_AUDIO_FORMAT: AudioFormat = { encoding: 'mulaw', sampleRate: 8000, channels: 1 }
+
+/**
+ * Details of a stream, sent by Twilio in the `start` message.
+ */
+export interface TwilioStreamStart {
+  streamSid: string
+  accountSid: string
+  callSid: string
+  tracks: string[]
+  /** `<Parameter>`s from the TwiML */
+  customParameters?: Record<string, string>
+  mediaFormat: { encoding: string; sampleRate: number; channels: number }
+}
+
+/**
+ * Messages Twilio sends over the Media Streams WebSocket.
+ */
+export type TwilioInboundMessage =
+  | { event: 'connected'; protocol: string; version: string }
+  | { event: 'start'; sequenceNumber: string; streamSid: string; start: TwilioStreamStart }
+  | {
+      event: 'media'
+      sequenceNumber: string
+      streamSid: string
+      media: { track?: string; chunk: string; timestamp: string; payload: string }
+    }
+  | { event: 'mark'; sequenceNumber: string; streamSid: string; mark: { name: string } }
+  | { event: 'dtmf'; sequenceNumber: string; streamSid: string; dtmf: { digit: string } }
+  | {
+      event: 'stop'
+      sequenceNumber: string
+      streamSid: string
+      stop: { accountSid: string; callSid: string }
+    }
+
+/**
+ * Messages we send to Twilio.
+ */
+export type TwilioOutboundMessage =
+  | { event: 'media'; streamSid: string; media: { payload: string } }
+  | { event: 'mark'; streamSid: string; mark: { name: string } }
+  | { event: 'clear'; streamSid: string }
+
+/**
+ * The parts of a WebSocket the transport needs (Hono's `WSContext` fits).
+ */
+export interface TwilioSocket {
+  send(data: string): void
+  close(): void
+}
+
+export interface TwilioCallOptions {
+  /**
+   * Provider configuration. The `sttProvider`/`ttsProvider` stream parameters
+   * override it per call.
+   */
+  providers?: ProviderConfig
+}
+
+/**
+ * Builds the TwiML that connects a call to a Media Streams WebSocket.
+ * Parameters are passed to the stream as `start.customParameters`.
+ */
+export function buildStreamTwiML(streamUrl: string, parameters: Record<string, string> = {}) {
+  const params = Object.entries(parameters)
+    .map(([name, value]) => `<Parameter name="${escapeXml(name)}" value="${escapeXml(value)}" />`)
+    .join('')
+
+  return `<?xml version="1.0" encoding="UTF-8"?><Response><Connect><Stream url="${escapeXml(streamUrl)}">${params}</Stream></Connect></Response>`
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Checks a webhook's `X-Twilio-Signature`: a base64 HMAC-SHA1, keyed with the
+ * account's auth token, of the full URL Twilio requested followed by each POST
+ * parameter's name and value, sorted by name.
+ *
+ * @see https://www.twilio.com/docs/usage/security#validating-requests
+ */
+export function validateTwilioSignature(
+  authToken: string,
+  signature: string,
+  url: string,
+  params: Record<string, string>
+): boolean {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((data, name) => data + name + params[name], url)
+  const expected = createHmac('sha1', authToken).update(payload).digest()
+  const actual = Buffer.from(signature, 'base64')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Transport over a Twilio Media Streams WebSocket. Marks and barge-in clears
+ * are handled by Twilio itself, so playback tracking reflects what the caller
+ * actually heard. DTMF key presses arrive as `{ type: "dtmf", digit }` control
+ * messages.
+ */
+export class TwilioMediaStreamTransport extends BaseVoiceTransport {
+  readonly #socket: TwilioSocket
+  #streamSid: string | null = null
+  #startListeners: Array<(start: TwilioStreamStart) => void> = []
+
+  constructor(socket: TwilioSocket) {
+    super({ audioFormat: TWILIO_AUDIO_FORMAT })
+    this.#socket = socket
+  }
+
+  /**
+   * Subscribe to the stream starting. Returns an unsubscribe function.
+   */
+  onStart(listener: (start: TwilioStreamStart) => void): () => void {
+    this.#startListeners.push(listener)
+    return () => {
+      this.#startListeners = this.#startListeners.filter((l) => l !== listener)
+    }
+  }
+
+  /**
+   * Handle a raw message from the Twilio WebSocket.
+   */
+  handleMessage(data: string): void {
+    if (this.closed) return
+
+    let message: TwilioInboundMessage
+    try {
+      message = JSON.parse(data) as TwilioInboundMessage
+    } catch {
+      console.warn('Twilio: Ignoring malformed message')
+      return
+    }
+
+    switch (message.event) {
+      case 'connected':
+        console.log(`Twilio: Connected (protocol ${message.protocol} ${message.version})`)
+        break
+      case 'start':
+        console.log(
+          `Twilio: Stream ${message.start.streamSid} started for call ${message.start.callSid}`
+        )
+        this.#streamSid = message.start.streamSid
+        for (const listener of this.#startListeners) {
+          listener(message.start)
+        }
+        break
+      case 'media':
+        if (message.media.track && message.media.track !== 'inbound') break
+        this.receiveAudio(Buffer.from(message.media.payload, 'base64'))
+        break
+      case 'mark':
+        this.notifyPlaybackMark(message.mark.name)
+        break
+      case 'dtmf':
+        console.log(`Twilio: DTMF ${message.dtmf.digit}`)
+        this.receiveControl({ type: 'dtmf', digit: message.dtmf.digit })
+        break
+      case 'stop':
+        console.log('Twilio: Stream stopped')
+        this.handleClosed('stream stopped')
+        break
+    }
+  }
+
+  /**
+   * Call when the Twilio WebSocket has closed.
+   */
+  handleClose(): void {
+    this.handleClosed('socket closed')
+  }
+
+  override mark(name: string): void {
+    if (this.closed || !this.#streamSid) {
+      // Nothing can be playing
+      queueMicrotask(() => this.notifyPlaybackMark(name))
+      return
+    }
+    // Twilio echoes the mark once the audio before it has played
+    this.#send({ event: 'mark', streamSid: this.#streamSid, mark: { name } })
+  }
+
+  override clearPlayback(): void {
+    // Twilio drops its buffered audio and echoes the pending marks
+    if (this.#streamSid) {
+      this.#send({ event: 'clear', streamSid: this.#streamSid })
+    }
+  }
+
+  protected writeAudio(chunk: Buffer): void {
+    if (!this.#streamSid) return
+    this.#send({
+      event: 'media',
+      streamSid: this.#streamSid,
+      media: { payload: chunk.toString('base64') },
+    })
+  }
+
+  protected writeControl(message: VoiceControlMessage): void {
+    // Media Streams has no channel for custom messages
+    console.log(`Twilio: Dropping control message ${message.type}`)
+  }
+
+  protected disconnect(reason: string): void {
+    // With <Connect><Stream>, closing the stream ends the call
+    console.log(`Twilio: Hanging up (${reason})`)
+    this.#socket.close()
+  }
+
+  #send(message: TwilioOutboundMessage): void {
+    if (this.closed) return
+    try {
+      this.#socket.send(JSON.stringify(message))
+    } catch (e) {
+      console.error('Twilio: Failed to send message:', e)
+    }
+  }
+}
+
+/**
+ * Answers a Twilio Media Stream: once the stream starts, the call is handed to
+ * the session manager, which runs a career coach agent until either side hangs
+ * up.
+ */
+export function answerTwilioCall(
+  socket: TwilioSocket,
+  sessions: VoiceSessionManager,
+  options: TwilioCallOptions = {}
+): TwilioMediaStreamTransport {
+  const { providers = DEFAULT_PROVIDERS } = options
+  const transport = new TwilioMediaStreamTransport(socket)
+
+  transport.onStart(({ customParameters: parameters = {} }) => {
+    sessions.start(transport, {
+      channel: 'twilio',
+      config: {
+        sttProvider: (parameters.sttProvider as STTProvider) ?? providers.sttProvider,
+        ttsProvider: (parameters.ttsProvider as TTSProvider) ?? providers.ttsProvider,
+        userName: parameters.userName,
+      },
+    })
+  })
+
+  return transport
+}
@@ -0,0 +1,219 @@
+/**
+ * WebRTC media track transport
+ *
+ * Carries the call's audio on real WebRTC audio tracks, so the browser handles
+ * jitter buffering, echo cancellation and Opus compression. The caller's track
+ * is read through `@roamhq/wrtc`'s `RTCAudioSink`; the agent's speech is fed to
+ * an `RTCAudioSource` in 10ms frames at real-time pace. A data channel carries
+ * JSON control messages (`clear-audio`, `call-ended`, ...).
+ */
+
+import wrtc from '@roamhq/wrtc'
+import {
+  AudioConverter,
+  audioFormatsEqual,
+  BaseVoiceTransport,
+  pcm16Format,
+  type AudioFormat,
+  type DataChannelLike,
+  type VoiceControlMessage,
+} from 'create-voice-agent'
+
+const { RTCAudioSink, RTCAudioSource } = wrtc.nonstandard
+
+/** WebRTC audio runs at 48kHz; the transport speaks 48kHz 16-bit mono PCM */
+export const WEBRTC_AUDIO_FORMAT: AudioFormat = pcm16Format(48000)
+
+/** `RTCAudioSource` expects exactly 10ms of audio per `onData()` call */
+const FRAME_MS = 10
+const FRAME_SAMPLES = (WEBRTC_AUDIO_FORMAT.sampleRate * FRAME_MS) / 1000
+const FRAME_BYTES = FRAME_SAMPLES * 2
+/** Ticks a partial frame waits for more audio before it is padded with silence */
+const PARTIAL_FRAME_TICKS = 2
+/** If the pacer falls further behind than this, it restarts its clock instead of bursting */
+const MAX_LAG_FRAMES = 5
+/** How long to keep the data channel open after `call-ended` (ms) */
+const CLOSE_DELAY_MS = 500
+
+/**
+ * Audio frame delivered by `RTCAudioSink`.
+ */
+interface AudioSinkData {
+  samples: Int16Array
+  sampleRate: number
+  channelCount?: number
+}
+
+/**
+ * Transport over an inbound and an outbound WebRTC audio track plus a control
+ * data channel. Playback marks are reached when the pacer has handed the audio
+ * before them to the outbound track.
+ */
+export class WebRTCTrackTransport extends BaseVoiceTransport {
+  readonly #source = new RTCAudioSource()
+  /** Outbound track - add it to the peer connection before answering */
+  readonly track = this.#source.createTrack()
+
+  #channel: DataChannelLike | null = null
+  #sink: InstanceType<typeof RTCAudioSink> | null = null
+  /** Converts inbound frames that aren't 48kHz mono */
+  #sinkConverter: { format: AudioFormat; converter: AudioConverter } | null = null
+
+  /** Outbound audio waiting to be paced out */
+  #pending: Buffer = Buffer.alloc(0)
+  /** Bytes handed to `sendAudio()` / to the track so far */
+  #queuedBytes = 0
+  #playedBytes = 0
+  #marks: Array<{ name: string; offset: number }> = []
+  #clockStart: number | null = null
+  #framesSent = 0
+  #partialTicks = 0
+  readonly #pacer: ReturnType<typeof setInterval>
+
+  constructor() {
+    super({ audioFormat: WEBRTC_AUDIO_FORMAT })
+    this.#pacer = setInterval(() => this.#tick(), FRAME_MS)
+  }
+
+  /**
+   * Read the caller's audio from an inbound track.
+   */
+  attachInboundTrack(track: unknown): void {
+    this.#sink?.stop()
+    const sink = new RTCAudioSink(track as ConstructorParameters<typeof RTCAudioSink>[0])
+    sink.ondata = (data: AudioSinkData) => this.#handleSinkData(data)
+    this.#sink = sink
+  }
+
+  /**
+   * Use an open data channel for control messages.
+   */
+  attachControlChannel(channel: DataChannelLike): void {
+    this.#channel = channel
+    channel.onmessage = (event) => {
+      if (typeof event.data !== 'string') return
+      try {
+        this.receiveControl(JSON.parse(event.data) as VoiceControlMessage)
+      } catch {
+        console.warn('WebRTC: Ignoring malformed control message')
+      }
+    }
+    channel.onclose = () => this.handleClosed('data channel closed')
+  }
+
+  override mark(name: string): void {
+    if (this.closed) return
+    this.#marks.push({ name, offset: this.#queuedBytes })
+    this.#reachMarks()
+  }
+
+  override clearPlayback(): void {
+    this.#playedBytes = this.#queuedBytes
+    this.#pending = Buffer.alloc(0)
+    this.#partialTicks = 0
+    this.#reachMarks()
+    this.sendControl({ type: 'clear-audio' })
+  }
+
+  protected writeAudio(chunk: Buffer): void {
+    this.#pending = Buffer.concat([this.#pending, chunk])
+    this.#queuedBytes += chunk.length
+  }
+
+  protected writeControl(message: VoiceControlMessage): void {
+    if (this.#channel?.readyState === 'open') {
+      this.#channel.send(JSON.stringify(message))
+    }
+  }
+
+  protected disconnect(reason: string): void {
+    this.writeControl({ type: 'call-ended', reason })
+    const channel = this.#channel
+    setTimeout(() => channel?.close(), CLOSE_DELAY_MS)
+  }
+
+  protected override handleClosed(reason: string): void {
+    if (this.closed) return
+    clearInterval(this.#pacer)
+    this.#sink?.stop()
+    this.#sink = null
+    this.track.stop()
+    super.handleClosed(reason)
+  }
+
+  #handleSinkData({ samples, sampleRate, channelCount = 1 }: AudioSinkData): void {
+    // Copy: the sink reuses its sample buffer
+    let chunk: Buffer = Buffer.from(
+      new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength).slice()
+    )
+
+    const format = pcm16Format(sampleRate, channelCount)
+    if (!audioFormatsEqual(format, WEBRTC_AUDIO_FORMAT)) {
+      if (!this.#sinkConverter || !audioFormatsEqual(this.#sinkConverter.format, format)) {
+        this.#sinkConverter = { format, converter: new AudioConverter(format, WEBRTC_AUDIO_FORMAT) }
+      }
+      chunk = this.#sinkConverter.converter.convert(chunk)
+    }
+
+    this.receiveAudio(chunk)
+  }
+
+  /**
+   * Hands due 10ms frames to the outbound track.
+   */
+  #tick(): void {
+    if (this.#pending.length === 0) {
+      this.#clockStart = null
+      return
+    }
+
+    // Give a trailing partial frame a moment to be completed before padding it
+    if (this.#pending.length < FRAME_BYTES && ++this.#partialTicks < PARTIAL_FRAME_TICKS) {
+      return
+    }
+
+    const now = Date.now()
+    if (this.#clockStart === null) {
+      this.#clockStart = now
+      this.#framesSent = 0
+    }
+    let due = Math.floor((now - this.#clockStart) / FRAME_MS) + 1
+    if (due - this.#framesSent > MAX_LAG_FRAMES) {
+      this.#clockStart = now
+      this.#framesSent = 0
+      due = 1
+    }
+
+    while (this.#framesSent < due && this.#pending.length > 0) {
+      if (this.#pending.length < FRAME_BYTES && this.#partialTicks < PARTIAL_FRAME_TICKS) break
+
+      const frame = this.#pending.subarray(0, FRAME_BYTES)
+      this.#pending = this.#pending.subarray(frame.length)
+      this.#partialTicks = 0
+
+      // Pads a partial frame with silence
+      const samples = new Int16Array(FRAME_SAMPLES)
+      new Uint8Array(samples.buffer).set(frame)
+      this.#source.onData({
+        samples,
+        sampleRate: WEBRTC_AUDIO_FORMAT.sampleRate,
+        channelCount: 1,
+        numberOfFrames: FRAME_SAMPLES,
+      })
+
+      this.#framesSent++
+      this.#playedBytes += frame.length
+    }
+
+    this.#reachMarks()
+  }
+
+  #reachMarks(): void {
+    const reached = this.#marks.filter((mark) => mark.offset <= this.#playedBytes)
+    if (reached.length === 0) return
+    this.#marks = this.#marks.filter((mark) => mark.offset > this.#playedBytes)
+    for (const { name } of reached) {
+      this.notifyPlaybackMark(name)
+    }
+  }
+}
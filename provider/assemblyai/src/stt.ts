@@ -1,7 +1,7 @@
 /**
  * AssemblyAI Real-Time Streaming Speech-to-Text Model (v3 API)
  *
- * Input: PCM 16-bit audio buffer
+ * Input: PCM 16-bit (or μ-law) audio buffer
  * Output: Transcribed text string (final/formatted transcripts only)
  *
  * Uses AssemblyAI's WebSocket-based real-time transcription API
@@ -10,7 +10,14 @@
 
 import querystring from 'node:querystring'
 
-import { BaseSpeechToTextModel, type SpeechToTextModelParams } from 'create-voice-agent'
+import {
+  BaseSpeechToTextModel,
+  averageConfidence,
+  describeAudioFormat,
+  type AudioFormat,
+  type SpeechToTextModelParams,
+  type TranscriptEvent,
+} from 'create-voice-agent'
 import { WebSocket } from 'ws'
 
 /**
@@ -93,7 +100,7 @@ export interface AssemblyAISTTOptions extends SpeechToTextModelParams {
   token?: string
 
   /**
-   * Audio encoding format
+   * Audio encoding format. Ignored when `audioFormat` is set.
    * @default "pcm_s16le"
    */
   encoding?: AssemblyAIEncoding
@@ -169,6 +176,8 @@ interface TurnMessage {
   transcript: string
   end_of_turn_confidence: number
   words: AssemblyAIWord[]
+  /** Detected language (multilingual model only) */
+  language_code?: string
 }
 
 interface TerminationMessage {
@@ -184,6 +193,30 @@ interface ErrorMessage {
 
 type AssemblyAIMessage = BeginMessage | TurnMessage | TerminationMessage | ErrorMessage
 
+/**
+ * Convert a Turn message to a provider-agnostic transcript
+ */
+function toTranscript(
+  message: TurnMessage,
+  speechModel: AssemblyAISpeechModel | undefined
+): Omit<TranscriptEvent, 'turnId'> {
+  const words = (message.words || []).map((word) => ({
+    text: word.text,
+    startMs: word.start,
+    endMs: word.end,
+    confidence: word.confidence,
+  }))
+
+  return {
+    text: message.transcript,
+    isFinal: message.turn_is_formatted,
+    confidence: averageConfidence(words),
+    words,
+    language:
+      message.language_code ?? (speechModel === 'universal-streaming-multi' ? undefined : 'en'),
+  }
+}
+
 /**
  * Get the WebSocket endpoint URL based on region
  */
@@ -197,6 +230,19 @@ function getEndpointUrl(region: AssemblyAIRegion): string {
   }
 }
 
+/**
+ * Map an audio format to the streaming API's encoding
+ */
+function toAssemblyAIEncoding(format: AudioFormat): AssemblyAIEncoding {
+  if ((format.channels ?? 1) === 1) {
+    if (format.encoding === 'pcm_s16le') return 'pcm_s16le'
+    if (format.encoding === 'mulaw') return 'pcm_mulaw'
+  }
+  throw new Error(
+    `AssemblyAI: Unsupported input format ${describeAudioFormat(format)} (expected mono pcm_s16le or mulaw)`
+  )
+}
+
 export class AssemblyAISpeechToText extends BaseSpeechToTextModel {
   readonly provider = 'assemblyai'
 
@@ -207,8 +253,12 @@ export class AssemblyAISpeechToText extends BaseSpeechToTextModel {
     const {
       apiKey,
       token,
-      sampleRate = 16000,
-      encoding = 'pcm_s16le',
+      sampleRate: configuredSampleRate = 16000,
+      encoding: configuredEncoding = 'pcm_s16le',
+      audioFormat = {
+        encoding: configuredEncoding === 'pcm_mulaw' ? 'mulaw' : 'pcm_s16le',
+        sampleRate: configuredSampleRate,
+      },
       formatTurns = true,
       keytermsPrompt,
       speechModel,
@@ -217,18 +267,23 @@ export class AssemblyAISpeechToText extends BaseSpeechToTextModel {
       minEndOfTurnSilenceWhenConfident,
       maxTurnSilence,
       onSpeechStart,
+      onTranscript,
       onTurn,
       onEndOfTurn,
     } = options
 
+    const encoding = toAssemblyAIEncoding(audioFormat)
+    const { sampleRate } = audioFormat
+
     let ws: WebSocket | null = null
     let connectionPromise: Promise<void> | null = null
     let activeController: TransformStreamDefaultController<string> | null = null
     let sessionId: string | null = null
     let speechStartSignaled = false
 
-    // Callback to notify speech start listeners (assigned after super())
+    // Callbacks to notify registered listeners (assigned after super())
     let notifySpeechStartCallback: () => void = () => {}
+    let notifyTranscriptCallback: (transcript: Omit<TranscriptEvent, 'turnId'>) => void = () => {}
 
     const self = {
       _ws: null as WebSocket | null,
@@ -344,6 +399,7 @@ export class AssemblyAISpeechToText extends BaseSpeechToTextModel {
                   // Final/formatted transcript - send to pipeline
                   if (message.transcript && message.transcript.trim().length > 0) {
                     console.log(`AssemblyAI [final]: "${message.transcript}"`)
+                    notifyTranscriptCallback(toTranscript(message, speechModel))
                     if (activeController) {
                       activeController.enqueue(message.transcript)
                     }
@@ -362,6 +418,8 @@ export class AssemblyAISpeechToText extends BaseSpeechToTextModel {
                       onSpeechStart?.()
                       notifySpeechStartCallback()
                     }
+
+                    notifyTranscriptCallback(toTranscript(message, speechModel))
                   }
                 }
                 break
@@ -459,8 +517,14 @@ export class AssemblyAISpeechToText extends BaseSpeechToTextModel {
       },
     })
 
-    // Assign callback now that `this` is available
+    this.audioFormat = audioFormat
+
+    // Assign callbacks now that `this` is available
     notifySpeechStartCallback = () => this.notifySpeechStart()
+    notifyTranscriptCallback = (transcript) => this.notifyTranscript(transcript)
+    if (onTranscript) {
+      this.addTranscriptListener(onTranscript)
+    }
 
     // Store references for instance methods
     this._ws = self._ws
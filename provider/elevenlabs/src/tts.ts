@@ -3,10 +3,19 @@
  *
  * Uses HTTP streaming API for reliable audio generation.
  * Input: Text string (sentences/tokens)
- * Output: PCM audio buffer (16-bit, mono, 16kHz)
+ * Output: Audio buffer in the output format (default: PCM 16-bit, mono, 16kHz)
  */
 
-import { BaseTextToSpeechModel, type TextToSpeechModelParams } from 'create-voice-agent'
+import {
+  BaseTextToSpeechModel,
+  bytesPerSecond,
+  describeAudioFormat,
+  type AudioEncoding,
+  type AudioFormat,
+  type CharacterTiming,
+  type SpeechSegmentTracker,
+  type TextToSpeechModelParams,
+} from 'create-voice-agent'
 
 /**
  * Voice settings for controlling speech characteristics.
@@ -127,7 +136,7 @@ export interface ElevenLabsOptions extends TextToSpeechModelParams {
   similarityBoost?: number
 
   /**
-   * Output format for the audio stream.
+   * Output format for the audio stream. Ignored when `audioFormat` is set.
    * @default "pcm_16000"
    */
   outputFormat?: ElevenLabsOutputFormat
@@ -191,6 +200,60 @@ export interface ElevenLabsOptions extends TextToSpeechModelParams {
    * @default 300
    */
   flushDelayMs?: number
+
+  /**
+   * Request character timings along with the audio (`/stream/with-timestamps`).
+   * Timings are reported through `addAlignmentListener()` and make barge-in
+   * truncation exact. Without them, timings are estimated from the audio duration.
+   * @default false
+   */
+  withTimestamps?: boolean
+}
+
+/**
+ * A chunk of the `/stream/with-timestamps` response.
+ */
+interface ElevenLabsTimestampChunk {
+  audio_base64?: string
+  alignment?: {
+    characters: string[]
+    character_start_times_seconds: number[]
+    character_end_times_seconds: number[]
+  } | null
+}
+
+const CODEC_ENCODINGS: Record<string, AudioEncoding> = {
+  pcm: 'pcm_s16le',
+  ulaw: 'mulaw',
+  alaw: 'alaw',
+  mp3: 'mp3',
+  opus: 'opus',
+}
+
+/**
+ * Describe an output format as an `AudioFormat`
+ */
+function toAudioFormat(outputFormat: ElevenLabsOutputFormat): AudioFormat {
+  const [codec, sampleRate] = outputFormat.split('_')
+  return { encoding: CODEC_ENCODINGS[codec], sampleRate: Number(sampleRate), channels: 1 }
+}
+
+/**
+ * Pick the output format that produces the given `AudioFormat`
+ */
+function toOutputFormat(audioFormat: AudioFormat): ElevenLabsOutputFormat {
+  const codec = Object.keys(CODEC_ENCODINGS).find(
+    (key) => CODEC_ENCODINGS[key] === audioFormat.encoding
+  )
+  const outputFormat = `${codec}_${audioFormat.sampleRate}`
+  const supported = /^(pcm_(8000|16000|22050|24000|32000|44100|48000)|ulaw_8000|alaw_8000)$/
+
+  if ((audioFormat.channels ?? 1) !== 1 || !supported.test(outputFormat)) {
+    throw new Error(
+      `ElevenLabs: Unsupported output format ${describeAudioFormat(audioFormat)} (use \`outputFormat\` for mp3/opus)`
+    )
+  }
+  return outputFormat as ElevenLabsOutputFormat
 }
 
 export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
@@ -215,7 +278,8 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
       voiceSettings,
       stability = 0.5,
       similarityBoost = 0.75,
-      outputFormat = 'pcm_16000',
+      outputFormat: configuredOutputFormat = 'pcm_16000',
+      audioFormat,
       optimizeStreamingLatency = 3,
       seed,
       previousText,
@@ -223,10 +287,13 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
       applyTextNormalization,
       applyLanguageTextNormalization,
       flushDelayMs = 300,
+      withTimestamps = false,
       onInterrupt,
       onAudioComplete,
     } = options
 
+    const outputFormat = audioFormat ? toOutputFormat(audioFormat) : configuredOutputFormat
+
     // Build voice settings, preferring new voiceSettings object over deprecated individual props
     const resolvedVoiceSettings = {
       stability: voiceSettings?.stability ?? stability,
@@ -240,6 +307,10 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
 
     // Callback to notify audio complete listeners (assigned after super())
     let notifyAudioCompleteCallback: () => void = () => {}
+    // Tracks spoken text for barge-in truncation (assigned after super())
+    let speechSegments: SpeechSegmentTracker | null = null
+    // Callback to report provider character timings (assigned after super())
+    let notifyCharacterTimingsCallback: (characters: CharacterTiming[]) => void = () => {}
 
     let activeController: TransformStreamDefaultController<Buffer> | null = null
     let textBuffer = ''
@@ -254,7 +325,8 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
         output_format: outputFormat,
         optimize_streaming_latency: String(optimizeStreamingLatency),
       })
-      return `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream?${params}`
+      const endpoint = withTimestamps ? 'stream/with-timestamps' : 'stream'
+      return `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/${endpoint}?${params}`
     }
 
     // Build request body with all configured parameters
@@ -299,11 +371,70 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
       return response
     }
 
+    // Parse a line of the timestamps response into audio and character timings
+    const parseTimestampChunk = (
+      line: string
+    ): { audio: Buffer; characters: CharacterTiming[] } => {
+      const chunk = JSON.parse(line) as ElevenLabsTimestampChunk
+      const audio = chunk.audio_base64 ? Buffer.from(chunk.audio_base64, 'base64') : Buffer.alloc(0)
+      const alignment = chunk.alignment
+      const characters =
+        alignment?.characters.map((char, i) => ({
+          char,
+          startMs: alignment.character_start_times_seconds[i] * 1000,
+          endMs: alignment.character_end_times_seconds[i] * 1000,
+        })) ?? []
+      return { audio, characters }
+    }
+
+    // Read audio (and character timings, when requested) from a streaming response
+    async function* readAudioStream(
+      response: Response
+    ): AsyncGenerator<{ audio: Buffer; characters: CharacterTiming[] }> {
+      const reader = response.body!.getReader()
+
+      try {
+        if (!withTimestamps) {
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) return
+            if (value) yield { audio: Buffer.from(value), characters: [] }
+          }
+        }
+
+        // The timestamps endpoint streams newline-delimited JSON
+        const decoder = new TextDecoder()
+        let pendingText = ''
+
+        while (true) {
+          const { done, value } = await reader.read()
+          if (value) pendingText += decoder.decode(value, { stream: true })
+
+          const lines = pendingText.split('\n')
+          pendingText = done ? '' : (lines.pop() ?? '')
+
+          for (const line of lines) {
+            if (line.trim()) yield parseTimestampChunk(line)
+          }
+
+          if (done) return
+        }
+      } finally {
+        // Stops the download when the consumer breaks out early
+        reader.cancel().catch(() => {})
+      }
+    }
+
+    // Only 16-bit PCM has samples that can be split across chunks
+    const isPCM16 = toAudioFormat(outputFormat).encoding === 'pcm_s16le'
+
     // Align PCM buffer to 16-bit sample boundaries
     const alignPCMBuffer = (
       buffer: Buffer,
       pendingByte: number | null
     ): { aligned: Buffer; pending: number | null } => {
+      if (!isPCM16) return { aligned: buffer, pending: null }
+
       let aligned = buffer
 
       // Prepend pending byte from previous chunk
@@ -329,6 +460,7 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
 
       currentAbortController = new AbortController()
       const signal = currentAbortController.signal
+      speechSegments?.begin(text)
 
       console.log(
         `ElevenLabs: Streaming TTS for "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`
@@ -338,27 +470,21 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
         const response = await fetchTTSStream(text, signal)
         console.log(`ElevenLabs: Response content-type: ${response.headers.get('content-type')}`)
 
-        const reader = response.body!.getReader()
         let totalBytes = 0
         let chunkCount = 0
         let pendingByte: number | null = null
 
-        while (true) {
-          const { done, value } = await reader.read()
-
-          if (done) {
-            console.log(`ElevenLabs: Stream complete (${chunkCount} chunks, ${totalBytes} bytes)`)
-            break
-          }
-
+        for await (const { audio: buffer, characters } of readAudioStream(response)) {
           if (isInterrupted || signal.aborted) {
             console.log('ElevenLabs: Stream aborted')
-            reader.cancel()
             break
           }
 
-          if (value && activeController) {
-            const buffer = Buffer.from(value)
+          if (characters.length > 0) {
+            notifyCharacterTimingsCallback(characters)
+          }
+
+          if (buffer.length > 0 && activeController) {
             totalBytes += buffer.length
             chunkCount++
 
@@ -374,9 +500,9 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
             if (aligned.length > 0) {
               try {
                 activeController.enqueue(aligned)
+                speechSegments?.recordAudio(aligned.length)
               } catch {
                 console.warn('ElevenLabs: Controller closed, stopping audio output')
-                reader.cancel()
                 break
               }
             }
@@ -384,6 +510,8 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
         }
 
         if (!isInterrupted && !signal.aborted) {
+          console.log(`ElevenLabs: Stream complete (${chunkCount} chunks, ${totalBytes} bytes)`)
+          speechSegments?.complete()
           onAudioComplete?.()
           notifyAudioCompleteCallback()
         }
@@ -492,6 +620,15 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
 
     // Assign callback now that `this` is available
     notifyAudioCompleteCallback = () => this.notifyAudioComplete()
+    speechSegments = this.speechSegments
+    notifyCharacterTimingsCallback = (characters) => this.notifyCharacterTimings(characters)
+
+    this.audioFormat = toAudioFormat(outputFormat)
+    // Compressed formats keep the tracker's default rate
+    const audioBytesPerSecond = bytesPerSecond(this.audioFormat)
+    if (audioBytesPerSecond) {
+      this.speechSegments.bytesPerSecond = audioBytesPerSecond
+    }
 
     // Implement speak method for one-off TTS
     this._speak = (text: string): ReadableStream<Buffer> => {
@@ -505,27 +642,18 @@ export class ElevenLabsTextToSpeech extends BaseTextToSpeechModel {
 
           try {
             const response = await fetchTTSStream(text, abortController.signal)
-            const reader = response.body!.getReader()
             let pendingByte: number | null = null
 
-            while (true) {
-              const { done, value } = await reader.read()
-
-              if (done) {
-                console.log('ElevenLabs speak: Stream complete')
-                break
-              }
-
-              if (value) {
-                const { aligned, pending } = alignPCMBuffer(Buffer.from(value), pendingByte)
-                pendingByte = pending
+            for await (const { audio } of readAudioStream(response)) {
+              const { aligned, pending } = alignPCMBuffer(audio, pendingByte)
+              pendingByte = pending
 
-                if (aligned.length > 0) {
-                  controller.enqueue(aligned)
-                }
+              if (aligned.length > 0) {
+                controller.enqueue(aligned)
               }
             }
 
+            console.log('ElevenLabs speak: Stream complete')
             controller.close()
           } catch (err) {
             if (err instanceof Error && err.name === 'AbortError') {
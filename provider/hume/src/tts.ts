@@ -2,11 +2,18 @@
  * Hume AI Text-to-Speech Model
  *
  * Input: Text string (sentences)
- * Output: PCM audio buffer (16-bit, mono, resampled to target rate)
+ * Output: Audio buffer in `audioFormat` (default: 16-bit mono PCM at `outputSampleRate`)
  */
 
 import { WebSocket } from 'ws'
-import { BaseTextToSpeechModel, type TextToSpeechModelParams } from 'create-voice-agent'
+import {
+  AudioConverter,
+  BaseTextToSpeechModel,
+  bytesPerSecond,
+  pcm16Format,
+  type SpeechSegmentTracker,
+  type TextToSpeechModelParams,
+} from 'create-voice-agent'
 
 export interface HumeOptions extends TextToSpeechModelParams {
   apiKey: string
@@ -14,35 +21,8 @@ export interface HumeOptions extends TextToSpeechModelParams {
   voiceProvider?: 'HUME_AI' | 'CUSTOM_VOICE'
 }
 
-/**
- * Resample PCM audio from source rate to target rate
- * Simple linear interpolation resampling
- */
-function resamplePCM(input: Buffer, sourceSampleRate: number, targetSampleRate: number): Buffer {
-  if (sourceSampleRate === targetSampleRate) {
-    return input
-  }
-
-  const ratio = sourceSampleRate / targetSampleRate
-  const inputSamples = input.length / 2 // 16-bit = 2 bytes per sample
-  const outputSamples = Math.floor(inputSamples / ratio)
-  const output = Buffer.alloc(outputSamples * 2)
-
-  for (let i = 0; i < outputSamples; i++) {
-    const srcIndex = i * ratio
-    const srcIndexFloor = Math.floor(srcIndex)
-    const srcIndexCeil = Math.min(srcIndexFloor + 1, inputSamples - 1)
-    const fraction = srcIndex - srcIndexFloor
-
-    const sample1 = input.readInt16LE(srcIndexFloor * 2)
-    const sample2 = input.readInt16LE(srcIndexCeil * 2)
-    const interpolated = Math.round(sample1 + (sample2 - sample1) * fraction)
-
-    output.writeInt16LE(Math.max(-32768, Math.min(32767, interpolated)), i * 2)
-  }
-
-  return output
-}
+/** Hume streams 48kHz 16-bit mono PCM */
+const HUME_AUDIO_FORMAT = pcm16Format(48000)
 
 export class HumeTextToSpeech extends BaseTextToSpeechModel {
   readonly provider = 'hume'
@@ -63,11 +43,13 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
       voiceName = 'Ava Song',
       voiceProvider = 'HUME_AI',
       outputSampleRate = 16000,
+      audioFormat = pcm16Format(outputSampleRate),
       onInterrupt,
       onAudioComplete,
     } = options
 
-    const HUME_SAMPLE_RATE = 48000
+    // Converts Hume's audio to the output format (throws early if that's impossible)
+    let converter = new AudioConverter(HUME_AUDIO_FORMAT, audioFormat)
 
     let ws: WebSocket | null = null
     let connectionPromise: Promise<void> | null = null
@@ -78,6 +60,12 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
     let closeResolve: (() => void) | null = null
     let closePromise: Promise<void> | null = null
 
+    // Callback to notify audio complete listeners (assigned after super())
+    let notifyAudioCompleteCallback: () => void = () => {}
+    // Tracks spoken text for barge-in truncation (assigned after super())
+    // Segments complete on `is_last_chunk`, or roll over by duration if it's missing
+    let speechSegments: SpeechSegmentTracker | null = null
+
     // Build WebSocket URL with auth params
     const buildWebSocketUrl = (): string => {
       const params = new URLSearchParams({
@@ -99,19 +87,22 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
       },
     })
 
-    // Process audio message and return resampled buffer
-    const processAudioMessage = (data: Buffer, logPrefix: string): Buffer | null => {
+    // Process audio message and return the audio in the output format
+    // The converter is flushed and replaced at the end of each utterance
+    const processAudioMessage = (
+      data: Buffer,
+      logPrefix: string,
+      audioConverter: AudioConverter
+    ): { audio: Buffer; isLastChunk: boolean } | null => {
       try {
         const message = JSON.parse(data.toString())
 
         if (message.type === 'audio' && message.audio) {
-          let audioBuffer: Buffer = Buffer.from(message.audio, 'base64')
-
-          if (HUME_SAMPLE_RATE !== outputSampleRate) {
-            audioBuffer = resamplePCM(audioBuffer, HUME_SAMPLE_RATE, outputSampleRate) as Buffer
-          }
+          const isLastChunk = message.is_last_chunk === true
+          const converted = audioConverter.convert(Buffer.from(message.audio, 'base64'))
+          const audio = isLastChunk ? Buffer.concat([converted, audioConverter.flush()]) : converted
 
-          return audioBuffer
+          return { audio, isLastChunk }
         } else if (message.type === 'error') {
           console.error(`${logPrefix} error:`, message.message || message)
         }
@@ -142,6 +133,7 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
         ws = null
       }
       connectionPromise = null
+      converter = new AudioConverter(HUME_AUDIO_FORMAT, audioFormat)
 
       if (closeResolve) {
         closeResolve()
@@ -171,9 +163,16 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
         })
 
         newWs.on('message', (data: Buffer) => {
-          const audioBuffer = processAudioMessage(data, 'Hume TTS')
-          if (audioBuffer && activeController) {
-            activeController.enqueue(audioBuffer)
+          const message = processAudioMessage(data, 'Hume TTS', converter)
+          if (message?.isLastChunk) {
+            converter = new AudioConverter(HUME_AUDIO_FORMAT, audioFormat)
+          }
+          if (message && activeController) {
+            activeController.enqueue(message.audio)
+            speechSegments?.recordAudio(message.audio.length)
+            if (message.isLastChunk) {
+              speechSegments?.complete()
+            }
           }
         })
 
@@ -197,6 +196,7 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
             closeResolve = null
           }
           onAudioComplete?.()
+          notifyAudioCompleteCallback()
         })
       })
     }
@@ -229,6 +229,7 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
           if (ws && ws.readyState === WebSocket.OPEN) {
             ws.send(JSON.stringify(buildVoiceMessage(text)))
             ws.send(JSON.stringify({ flush: true }))
+            speechSegments?.begin(text)
           } else {
             console.warn('Hume TTS: WebSocket not open, dropping text:', text)
           }
@@ -266,10 +267,17 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
 
     this._interrupt = interruptTTS
 
+    // Assign callback now that `this` is available
+    notifyAudioCompleteCallback = () => this.notifyAudioComplete()
+    speechSegments = this.speechSegments
+    this.audioFormat = audioFormat
+    this.speechSegments.bytesPerSecond = bytesPerSecond(audioFormat) ?? outputSampleRate * 2
+
     // Implement speak method for one-off TTS
     this._speak = (text: string): ReadableStream<Buffer> => {
       return new ReadableStream<Buffer>({
         start(controller) {
+          const speakConverter = new AudioConverter(HUME_AUDIO_FORMAT, audioFormat)
           const url = buildWebSocketUrl()
           console.log('Hume speak: Connecting...')
 
@@ -283,9 +291,9 @@ export class HumeTextToSpeech extends BaseTextToSpeechModel {
           })
 
           speakWs.on('message', (data: Buffer) => {
-            const audioBuffer = processAudioMessage(data, 'Hume speak')
-            if (audioBuffer) {
-              controller.enqueue(audioBuffer)
+            const message = processAudioMessage(data, 'Hume speak', speakConverter)
+            if (message) {
+              controller.enqueue(message.audio)
             }
           })
 
@@ -12,7 +12,16 @@
  */
 
 import { OpenAI, toFile } from 'openai'
-import { BaseSpeechToTextModel, type SpeechToTextModelParams } from 'create-voice-agent'
+import {
+  BaseSpeechToTextModel,
+  EnergyVAD,
+  describeAudioFormat,
+  pcm16Format,
+  pcm16ToSamples,
+  type SpeechToTextModelParams,
+  type TranscriptEvent,
+  type VoiceActivityDetector,
+} from 'create-voice-agent'
 
 export interface OpenAISTTOptions extends SpeechToTextModelParams {
   apiKey: string
@@ -23,8 +32,13 @@ export interface OpenAISTTOptions extends SpeechToTextModelParams {
    */
   minAudioDurationMs?: number
   /**
-   * Energy threshold for VAD speech detection.
-   * Higher values = less sensitive to quiet sounds. Default: 500
+   * Voice activity detector used to find speech in the input audio.
+   * Default: EnergyVAD using `vadEnergyThreshold`
+   */
+  vad?: VoiceActivityDetector
+  /**
+   * Energy threshold for the default VAD.
+   * Higher values = less sensitive to quiet sounds. Ignored when `vad` is set. Default: 500
    */
   vadEnergyThreshold?: number
   /**
@@ -67,18 +81,6 @@ function createWavHeader(len: number, sampleRate = 16000): Buffer {
   return buffer
 }
 
-/**
- * Calculate RMS energy of an audio frame
- */
-function calculateEnergy(frame: Buffer): number {
-  let sum = 0
-  for (let i = 0; i < frame.length - 1; i += 2) {
-    const sample = frame.readInt16LE(i)
-    sum += Math.abs(sample)
-  }
-  return sum / (frame.length / 2)
-}
-
 export class OpenAISpeechToText extends BaseSpeechToTextModel {
   readonly provider = 'openai'
 
@@ -86,20 +88,32 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
     const {
       apiKey,
       model = 'whisper-1',
-      sampleRate = 16000,
+      sampleRate: configuredSampleRate = 16000,
+      audioFormat = pcm16Format(configuredSampleRate),
       onSpeechStart,
+      onTranscript,
       minAudioDurationMs = 500,
       vadEnergyThreshold = 500,
+      vad = new EnergyVAD({
+        sampleRate: audioFormat.sampleRate,
+        energyThreshold: vadEnergyThreshold,
+      }),
       vadSilenceFrames = 15,
       partialTranscripts = true,
       partialIntervalMs = 1000,
     } = options
     const openai = new OpenAI({ apiKey })
 
-    // VAD state
-    const frameSizeMs = 32
-    const samplesPerFrame = Math.floor((sampleRate * frameSizeMs) / 1000)
-    const bytesPerFrame = samplesPerFrame * 2 // 16-bit audio
+    // Whisper gets a WAV file and the VAD reads samples, so the input must be 16-bit mono PCM
+    if (audioFormat.encoding !== 'pcm_s16le' || (audioFormat.channels ?? 1) !== 1) {
+      throw new Error(
+        `OpenAI STT: Unsupported input format ${describeAudioFormat(audioFormat)} (expected 16-bit mono PCM). Set \`inputFormat\` on the voice agent to convert.`
+      )
+    }
+    const { sampleRate } = audioFormat
+
+    // VAD state (frame size is dictated by the detector)
+    const bytesPerFrame = vad.frameSamples * 2 // 16-bit audio
     const minSpeechFrames = 4 // ~128ms of speech to start
 
     let audioBuffer: Buffer[] = []
@@ -110,10 +124,14 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
     let speechStartSignaled = false
     let speechStartTime = 0
     let lastBufferLogTime = 0
-    let peakEnergy = 0
-    let totalEnergy = 0
+    let peakProbability = 0
+    let totalProbability = 0
     let frameCount = 0
 
+    // Callbacks to notify registered listeners (assigned after super())
+    let notifySpeechStartCallback: () => void = () => {}
+    let notifyTranscriptCallback: (transcript: Omit<TranscriptEvent, 'turnId'>) => void = () => {}
+
     // Partial transcription state
     let lastPartialTime = 0
     let lastPartialText = ''
@@ -132,6 +150,35 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
       return `${(bytes / 1024 / 1024).toFixed(2)}MB`
     }
 
+    // Transcribe WAV audio; whisper-1 also reports the language and word timings
+    const transcribe = async (
+      wavData: Buffer,
+      filename: string
+    ): Promise<Pick<TranscriptEvent, 'text' | 'words' | 'language'>> => {
+      const file = await toFile(wavData, filename, { type: 'audio/wav' })
+
+      if (model !== 'whisper-1') {
+        const response = await openai.audio.transcriptions.create({ file, model })
+        return { text: response.text?.trim() ?? '' }
+      }
+
+      const response = await openai.audio.transcriptions.create({
+        file,
+        model,
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word'],
+      })
+      return {
+        text: response.text?.trim() ?? '',
+        language: response.language,
+        words: response.words?.map((word) => ({
+          text: word.word,
+          startMs: word.start * 1000,
+          endMs: word.end * 1000,
+        })),
+      }
+    }
+
     // Helper to get partial transcription (non-blocking)
     const getPartialTranscription = async (): Promise<void> => {
       if (!partialTranscripts || partialInProgress || audioBuffer.length === 0) return
@@ -153,18 +200,15 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
         const header = createWavHeader(partialAudio.length, sampleRate)
         const wavData = Buffer.concat([header, partialAudio])
 
-        const file = await toFile(wavData, 'partial.wav', { type: 'audio/wav' })
-        const response = await openai.audio.transcriptions.create({
-          file,
-          model,
-        })
+        const transcript = await transcribe(wavData, 'partial.wav')
 
-        const text = response.text?.trim()
-        if (text && text.length > 0 && text !== lastPartialText) {
+        const text = transcript.text
+        if (text.length > 0 && text !== lastPartialText) {
           lastPartialText = text
           console.log(
             `OpenAI STT [partial]: "${text}" (${formatDuration(durationMs)})`
           )
+          notifyTranscriptCallback({ ...transcript, isFinal: false })
         }
       } catch (err) {
         // Silently ignore partial transcription errors
@@ -174,9 +218,11 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
     }
 
     // Helper to process a single frame
-    const processFrame = (frame: Buffer): { speechEnded: boolean; audioData: Buffer | null } => {
-      const energy = calculateEnergy(frame)
-      const isSpeech = energy > vadEnergyThreshold
+    const processFrame = (
+      frame: Buffer,
+      probability: number
+    ): { speechEnded: boolean; audioData: Buffer | null } => {
+      const isSpeech = probability > vad.threshold
 
       if (isSpeech) {
         silenceFrameCount = 0
@@ -185,23 +231,26 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
         if (!isSpeaking && speechFrameCount >= minSpeechFrames) {
           isSpeaking = true
           speechStartTime = Date.now()
-          peakEnergy = 0
-          totalEnergy = 0
+          peakProbability = 0
+          totalProbability = 0
           frameCount = 0
           lastBufferLogTime = speechStartTime
-          console.log(`OpenAI STT [VAD]: Speech started (energy: ${energy.toFixed(0)}, threshold: ${vadEnergyThreshold})`)
+          console.log(
+            `OpenAI STT [VAD]: Speech started (speech prob: ${probability.toFixed(2)}, threshold: ${vad.threshold})`
+          )
 
           // Signal speech start for barge-in (only once per utterance)
-          if (!speechStartSignaled && onSpeechStart) {
+          if (!speechStartSignaled) {
             speechStartSignaled = true
-            onSpeechStart()
+            onSpeechStart?.()
+            notifySpeechStartCallback()
           }
         }
 
         if (isSpeaking) {
           audioBuffer.push(frame)
-          peakEnergy = Math.max(peakEnergy, energy)
-          totalEnergy += energy
+          peakProbability = Math.max(peakProbability, probability)
+          totalProbability += probability
           frameCount++
 
           // Log buffer progress every 500ms while speaking
@@ -209,11 +258,11 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
           if (now - lastBufferLogTime >= 500) {
             const currentDuration = now - speechStartTime
             const bufferSize = audioBuffer.reduce((sum, b) => sum + b.length, 0)
-            const avgEnergy = frameCount > 0 ? totalEnergy / frameCount : 0
+            const avgProbability = frameCount > 0 ? totalProbability / frameCount : 0
             console.log(
               `OpenAI STT [buffering]: ${formatDuration(currentDuration)} | ` +
                 `${formatBytes(bufferSize)} | ` +
-                `energy: avg=${avgEnergy.toFixed(0)}, peak=${peakEnergy.toFixed(0)}`
+                `speech prob: avg=${avgProbability.toFixed(2)}, peak=${peakProbability.toFixed(2)}`
             )
             lastBufferLogTime = now
 
@@ -230,13 +279,13 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
             // Speech ended, return the complete buffer
             const completeAudio = Buffer.concat(audioBuffer)
             const speechDuration = Date.now() - speechStartTime
-            const avgEnergy = frameCount > 0 ? totalEnergy / frameCount : 0
+            const avgProbability = frameCount > 0 ? totalProbability / frameCount : 0
 
             console.log(
               `OpenAI STT [VAD]: Speech ended | ` +
                 `duration: ${formatDuration(speechDuration)} | ` +
                 `size: ${formatBytes(completeAudio.length)} | ` +
-                `energy: avg=${avgEnergy.toFixed(0)}, peak=${peakEnergy.toFixed(0)}`
+                `speech prob: avg=${avgProbability.toFixed(2)}, peak=${peakProbability.toFixed(2)}`
             )
 
             // Reset state
@@ -259,6 +308,10 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
     }
 
     super({
+      start() {
+        vad.reset()
+      },
+
       async transform(chunk, controller) {
         // Combine pending bytes with new chunk
         const combined = Buffer.concat([pendingBytes, chunk])
@@ -267,7 +320,8 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
         let offset = 0
         while (offset + bytesPerFrame <= combined.length) {
           const frame = combined.subarray(offset, offset + bytesPerFrame)
-          const result = processFrame(frame)
+          const probability = await vad.process(pcm16ToSamples(frame))
+          const result = processFrame(frame, probability)
 
           if (result.speechEnded && result.audioData) {
             // Check minimum duration
@@ -290,17 +344,12 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
               )
               const transcribeStart = Date.now()
 
-              const file = await toFile(wavData, 'input.wav', { type: 'audio/wav' })
-
-              const response = await openai.audio.transcriptions.create({
-                file,
-                model,
-              })
+              const transcript = await transcribe(wavData, 'input.wav')
 
               const transcribeTime = Date.now() - transcribeStart
-              const text = response.text?.trim()
+              const text = transcript.text
 
-              if (text && text.length > 0) {
+              if (text.length > 0) {
                 // Filter out likely echo/noise transcriptions
                 // Single short words that are commonly misheard from TTS audio
                 const suspiciousPatterns = /^(you|yeah|hey|hi|uh|um|oh|ah|the|a|and|hmm|mhm)\.?$/i
@@ -314,6 +363,7 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
                       `audio: ${formatDuration(durationMs)} | ` +
                       `latency: ${transcribeTime}ms`
                   )
+                  notifyTranscriptCallback({ ...transcript, isFinal: true })
                   controller.enqueue(text)
                 }
               } else {
@@ -350,5 +400,14 @@ export class OpenAISpeechToText extends BaseSpeechToTextModel {
         }
       },
     })
+
+    this.audioFormat = audioFormat
+
+    // Assign callbacks now that `this` is available
+    notifySpeechStartCallback = () => this.notifySpeechStart()
+    notifyTranscriptCallback = (transcript) => this.notifyTranscript(transcript)
+    if (onTranscript) {
+      this.addTranscriptListener(onTranscript)
+    }
   }
 }
@@ -2,14 +2,23 @@
  * OpenAI Text-to-Speech Model
  *
  * Input: Text string
- * Output: PCM audio buffer (16-bit, mono, 16kHz)
+ * Output: Audio buffer in `audioFormat` (default: 16-bit mono PCM at 16kHz)
  *
- * Uses OpenAI's TTS API with PCM output format, resampled from 24kHz to 16kHz
- * for compatibility with standard voice pipelines.
+ * Uses OpenAI's TTS API with PCM output format, converted from 24kHz to the
+ * output format for compatibility with standard voice pipelines.
  */
 
 import { OpenAI } from 'openai'
-import { BaseTextToSpeechModel, type TextToSpeechModelParams } from 'create-voice-agent'
+import {
+  BaseTextToSpeechModel,
+  bytesPerSecond,
+  convertAudio,
+  describeAudioFormat,
+  isConvertibleFormat,
+  pcm16Format,
+  type SpeechSegmentTracker,
+  type TextToSpeechModelParams,
+} from 'create-voice-agent'
 
 export type OpenAIVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
 
@@ -19,39 +28,14 @@ export interface OpenAITTSOptions extends TextToSpeechModelParams {
   voice?: OpenAIVoice
   /**
    * Output sample rate. OpenAI outputs 24kHz PCM, which is resampled to this rate.
+   * Ignored when `audioFormat` is set.
    * @default 16000
    */
   sampleRate?: number
 }
 
-/**
- * Resample PCM audio from one sample rate to another using linear interpolation.
- * Input and output are 16-bit signed PCM.
- */
-function resamplePCM(input: Buffer, fromRate: number, toRate: number): Buffer {
-  if (fromRate === toRate) return input
-
-  const ratio = fromRate / toRate
-  const inputSamples = input.length / 2
-  const outputSamples = Math.floor(inputSamples / ratio)
-  const output = Buffer.alloc(outputSamples * 2)
-
-  for (let i = 0; i < outputSamples; i++) {
-    const srcIndex = i * ratio
-    const srcIndexFloor = Math.floor(srcIndex)
-    const srcIndexCeil = Math.min(srcIndexFloor + 1, inputSamples - 1)
-    const fraction = srcIndex - srcIndexFloor
-
-    const sample1 = input.readInt16LE(srcIndexFloor * 2)
-    const sample2 = input.readInt16LE(srcIndexCeil * 2)
-
-    // Linear interpolation
-    const interpolated = Math.round(sample1 + (sample2 - sample1) * fraction)
-    output.writeInt16LE(Math.max(-32768, Math.min(32767, interpolated)), i * 2)
-  }
-
-  return output
-}
+/** OpenAI's `pcm` response format: 24kHz 16-bit mono */
+const OPENAI_AUDIO_FORMAT = pcm16Format(24000)
 
 export class OpenAITextToSpeech extends BaseTextToSpeechModel {
   readonly provider = 'openai'
@@ -76,18 +60,28 @@ export class OpenAITextToSpeech extends BaseTextToSpeechModel {
       model = 'tts-1',
       voice = 'alloy',
       sampleRate = 16000,
+      audioFormat = pcm16Format(sampleRate),
       onInterrupt,
       onAudioComplete,
     } = options
 
+    if (!isConvertibleFormat(audioFormat)) {
+      throw new Error(
+        `OpenAI TTS: Unsupported output format ${describeAudioFormat(audioFormat)}`
+      )
+    }
+
     const openai = new OpenAI({ apiKey })
     const instance = { isInterrupted: false }
 
-    // OpenAI PCM output is always 24kHz
-    const openaiSampleRate = 24000
+    // Callback to notify audio complete listeners (assigned after super())
+    let notifyAudioCompleteCallback: () => void = () => {}
+    // Tracks spoken text for barge-in truncation (assigned after super())
+    let speechSegments: SpeechSegmentTracker | null = null
+
     const chunkSize = 4096
 
-    // Generate speech and return resampled PCM buffer
+    // Generate speech and return it in the output format
     const generateSpeech = async (text: string, logPrefix: string): Promise<Buffer> => {
       const displayText = text.length > 50 ? `${text.substring(0, 50)}...` : text
       console.log(`${logPrefix}: Generating speech for: "${displayText}"`)
@@ -102,12 +96,12 @@ export class OpenAITextToSpeech extends BaseTextToSpeechModel {
       const rawBuffer = Buffer.from(await response.arrayBuffer())
       console.log(`${logPrefix}: Received ${(rawBuffer.length / 1024).toFixed(1)}KB PCM audio (24kHz)`)
 
-      const resampledBuffer = resamplePCM(rawBuffer, openaiSampleRate, sampleRate)
+      const convertedBuffer = convertAudio(rawBuffer, OPENAI_AUDIO_FORMAT, audioFormat)
       console.log(
-        `${logPrefix}: Resampled to ${sampleRate}Hz (${(resampledBuffer.length / 1024).toFixed(1)}KB)`
+        `${logPrefix}: Converted to ${describeAudioFormat(audioFormat)} (${(convertedBuffer.length / 1024).toFixed(1)}KB)`
       )
 
-      return resampledBuffer
+      return convertedBuffer
     }
 
     // Stream buffer in chunks to controller
@@ -133,10 +127,19 @@ export class OpenAITextToSpeech extends BaseTextToSpeechModel {
           return
         }
 
+        speechSegments?.begin(text)
+
         try {
-          const resampledBuffer = await generateSpeech(text, 'OpenAI TTS')
+          const convertedBuffer = await generateSpeech(text, 'OpenAI TTS')
 
-          const completed = streamChunks(resampledBuffer, controller, () => {
+          const output = {
+            enqueue: (chunk: Buffer) => {
+              controller.enqueue(chunk)
+              speechSegments?.recordAudio(chunk.length)
+            },
+          }
+
+          const completed = streamChunks(convertedBuffer, output, () => {
             if (instance.isInterrupted) {
               console.log('OpenAI TTS: Stream interrupted')
               onInterrupt?.()
@@ -146,7 +149,9 @@ export class OpenAITextToSpeech extends BaseTextToSpeechModel {
           })
 
           if (completed) {
+            speechSegments?.complete()
             onAudioComplete?.()
+            notifyAudioCompleteCallback()
           }
         } catch (err) {
           console.error('OpenAI TTS Error:', err)
@@ -154,6 +159,12 @@ export class OpenAITextToSpeech extends BaseTextToSpeechModel {
       },
     })
 
+    // Assign callback now that `this` is available
+    notifyAudioCompleteCallback = () => this.notifyAudioComplete()
+    speechSegments = this.speechSegments
+    this.audioFormat = audioFormat
+    this.speechSegments.bytesPerSecond = bytesPerSecond(audioFormat) ?? sampleRate * 2
+
     // Store reference for interrupt method
     Object.defineProperty(this, 'isInterrupted', {
       get: () => instance.isInterrupted,
@@ -167,8 +178,8 @@ export class OpenAITextToSpeech extends BaseTextToSpeechModel {
       return new ReadableStream<Buffer>({
         async start(controller) {
           try {
-            const resampledBuffer = await generateSpeech(text, 'OpenAI speak')
-            streamChunks(resampledBuffer, controller)
+            const convertedBuffer = await generateSpeech(text, 'OpenAI speak')
+            streamChunks(convertedBuffer, controller)
             controller.close()
           } catch (err) {
             console.error('OpenAI speak Error:', err)